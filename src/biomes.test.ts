@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { biomeAt, biomeNoise, BIOMES } from "./biomes.ts";
+import { rollCoinValue } from "./generation.ts";
+import { hexNeighbor } from "./hex.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+
+function* area(radius: number) {
+  for (let q = -radius; q <= radius; q++) {
+    for (let r = -radius; r <= radius; r++) {
+      yield { q, r };
+    }
+  }
+}
+
+Deno.test("every biome turns up somewhere", () => {
+  const found = new Set<string>();
+  for (const coord of area(100)) found.add(biomeAt(coord, "").id);
+  assert.deepEqual([...found].sort(), BIOMES.map((b) => b.id).sort());
+});
+
+Deno.test("biomes span many hexes", () => {
+  let same = 0;
+  let total = 0;
+  for (const coord of area(40)) {
+    const neighbor = hexNeighbor(coord, "northeast");
+    if (biomeAt(coord, "").id === biomeAt(neighbor, "").id) same++;
+    total++;
+  }
+  assert.ok(same / total > 0.85, `only ${same} of ${total} neighbors match`);
+});
+
+Deno.test("noise changes smoothly between neighbors", () => {
+  for (const coord of area(20)) {
+    const step = Math.abs(
+      biomeNoise(coord, "x") - biomeNoise(hexNeighbor(coord, "north"), "x"),
+    );
+    assert.ok(step < 0.2);
+  }
+});
+
+Deno.test("the seed moves the biomes", () => {
+  const cells = [...area(30)];
+  const differing = cells.filter((coord) =>
+    biomeAt(coord, "a").id !== biomeAt(coord, "b").id
+  );
+  assert.ok(differing.length > cells.length / 4);
+});
+
+Deno.test("rich biomes yield more and better coins", () => {
+  const stats = new Map<
+    string,
+    { cells: number; coins: number; sum: number }
+  >();
+  for (const coord of area(100)) {
+    const biome = biomeAt(coord, "").id;
+    const entry = stats.get(biome) ?? { cells: 0, coins: 0, sum: 0 };
+    const value = rollCoinValue(coord, DEFAULT_WORLD_SETTINGS);
+    entry.cells++;
+    if (value !== null) {
+      entry.coins++;
+      entry.sum += value;
+    }
+    stats.set(biome, entry);
+  }
+  const wasteland = stats.get("wasteland")!;
+  const goldfields = stats.get("goldfields")!;
+  assert.ok(
+    goldfields.coins / goldfields.cells > 2 * wasteland.coins / wasteland.cells,
+  );
+  assert.ok(
+    goldfields.sum / goldfields.coins > wasteland.sum / wasteland.coins,
+  );
+});
+
+Deno.test("rolls only depend on the cell and settings", () => {
+  const first = [...area(10)].map((c) =>
+    rollCoinValue(c, DEFAULT_WORLD_SETTINGS)
+  );
+  const again = [...area(10)].map((c) =>
+    rollCoinValue(c, DEFAULT_WORLD_SETTINGS)
+  );
+  assert.deepEqual(first, again);
+});
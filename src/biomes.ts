@@ -0,0 +1,111 @@
+import type { HexCoord } from "./hex.ts";
+import { worldLuck } from "./worldSettings.ts";
+
+export type BiomeId =
+  | "wasteland"
+  | "plains"
+  | "forest"
+  | "hills"
+  | "goldfields";
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  // UI accent for the biome badge
+  color: string;
+  // Multiplies the world's spawn probability
+  density: number;
+  // Skews value rolls: above 1 favours the top of the world's value range,
+  // below 1 the bottom
+  richness: number;
+  // Coins worth more than the usual range, found only here
+  rare: { chance: number; values: number[] } | null;
+}
+
+// Ordered by noise level; each biome covers the noise below its threshold
+const BIOME_TABLE: [threshold: number, biome: Biome][] = [
+  [0.34, {
+    id: "wasteland",
+    name: "Wasteland",
+    color: "#a1887f",
+    density: 0.3,
+    richness: 0.6,
+    rare: null,
+  }],
+  [0.5, {
+    id: "plains",
+    name: "Plains",
+    color: "#9ccc65",
+    density: 1,
+    richness: 1,
+    rare: { chance: 0.01, values: [16] },
+  }],
+  [0.64, {
+    id: "forest",
+    name: "Forest",
+    color: "#2e7d32",
+    density: 1.6,
+    richness: 1.2,
+    rare: { chance: 0.02, values: [16] },
+  }],
+  [0.8, {
+    id: "hills",
+    name: "Hills",
+    color: "#8d6e63",
+    density: 0.7,
+    richness: 2,
+    rare: { chance: 0.05, values: [16, 32] },
+  }],
+  [Infinity, {
+    id: "goldfields",
+    name: "Goldfields",
+    color: "#f9a825",
+    density: 2.5,
+    richness: 2.5,
+    rare: { chance: 0.1, values: [32, 64] },
+  }],
+];
+
+export const BIOMES: Biome[] = BIOME_TABLE.map(([, biome]) => biome);
+
+// Lattice spacing of each noise layer in hex widths, and its weight. The
+// coarse layer sets the regions and the fine one roughens their edges.
+const NOISE_OCTAVES: [scale: number, weight: number][] = [
+  [24, 0.75],
+  [8, 0.25],
+];
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// Value noise: luck() rolls at lattice points, blended smoothly in between
+function valueNoise(seed: string, x: number, y: number, scale: number): number {
+  const gx = x / scale;
+  const gy = y / scale;
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const tx = smoothstep(gx - x0);
+  const ty = smoothstep(gy - y0);
+  const corner = (ix: number, iy: number) =>
+    worldLuck(seed, [ix, iy, scale, "biome"].toString());
+  const top = corner(x0, y0) + (corner(x0 + 1, y0) - corner(x0, y0)) * tx;
+  const bottom = corner(x0, y0 + 1) +
+    (corner(x0 + 1, y0 + 1) - corner(x0, y0 + 1)) * tx;
+  return top + (bottom - top) * ty;
+}
+
+// Noise in [0, 1) at a cell, sampled at its center so regions look round
+export function biomeNoise(coord: HexCoord, seed: string): number {
+  const x = 1.5 * coord.q;
+  const y = Math.sqrt(3) * (coord.r + coord.q / 2);
+  return NOISE_OCTAVES.reduce(
+    (sum, [scale, weight]) => sum + weight * valueNoise(seed, x, y, scale),
+    0,
+  );
+}
+
+export function biomeAt(coord: HexCoord, seed: string): Biome {
+  const noise = biomeNoise(coord, seed);
+  return BIOME_TABLE.find(([threshold]) => noise < threshold)![1];
+}
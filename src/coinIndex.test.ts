@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { CoinIndex } from "./coinIndex.ts";
+import { coinAt } from "./testCoins.ts";
+
+Deno.test("coins are found by cell", () => {
+  const index = new CoinIndex<string>();
+  const coin = coinAt(-3, 5);
+  index.set(coin, "marker");
+  assert.equal(index.size, 1);
+  assert.deepEqual(index.at({ q: -3, r: 5 }), { coin, data: "marker" });
+  assert.equal(index.at({ q: 5, r: -3 }), undefined);
+});
+
+Deno.test("a cell holds one coin", () => {
+  const index = new CoinIndex<number>();
+  const first = coinAt(1, 1);
+  const second = { ...coinAt(1, 1), id: "other" };
+  index.set(first, 1);
+  index.set(second, 2);
+  assert.equal(index.size, 1);
+  assert.equal(index.at({ q: 1, r: 1 })?.coin, second);
+});
+
+Deno.test("delete leaves a cell alone once it holds another coin", () => {
+  const index = new CoinIndex<number>();
+  const old = coinAt(2, -1);
+  index.set(old, 1);
+  const replacement = { ...coinAt(2, -1), id: "replacement" };
+  index.set(replacement, 2);
+  assert.ok(!index.delete(old));
+  assert.equal(index.at({ q: 2, r: -1 })?.coin, replacement);
+  assert.ok(index.delete(replacement));
+  assert.equal(index.size, 0);
+});
@@ -0,0 +1,43 @@
+import type { Coin } from "./generation.ts";
+import { HexCoord, packHex } from "./hex.ts";
+
+export interface IndexedCoin<T> {
+  coin: Coin;
+  // Whatever the index's owner keeps with the coin, e.g. its map marker
+  data: T;
+}
+
+// The coins lying on the map, by the cell they lie in. A cell holds at most
+// one coin.
+export class CoinIndex<T> {
+  private byCell = new Map<number, IndexedCoin<T>>();
+
+  get size(): number {
+    return this.byCell.size;
+  }
+
+  // Replaces whatever coin the cell held
+  set(coin: Coin, data: T): void {
+    this.byCell.set(packHex(coin.cell.coord), { coin, data });
+  }
+
+  at(coord: HexCoord): IndexedCoin<T> | undefined {
+    return this.byCell.get(packHex(coord));
+  }
+
+  // Only removes the coin if its cell still holds it
+  delete(coin: Coin): boolean {
+    const cell = packHex(coin.cell.coord);
+    if (this.byCell.get(cell)?.coin.id !== coin.id) return false;
+    this.byCell.delete(cell);
+    return true;
+  }
+
+  values(): IterableIterator<IndexedCoin<T>> {
+    return this.byCell.values();
+  }
+
+  clear(): void {
+    this.byCell.clear();
+  }
+}
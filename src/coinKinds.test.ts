@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { coinLabel, compassTarget } from "./coinKinds.ts";
+import { coinAt, testGrid } from "./testCoins.ts";
+
+Deno.test("coin labels show the kind", () => {
+  assert.equal(coinLabel(coinAt(0, 0, 4)), "4");
+  assert.equal(coinLabel(coinAt(0, 0, 4, "wildcard")), "★4");
+  assert.equal(coinLabel(coinAt(0, 0, 2, "multiplier")), "×2");
+  assert.equal(coinLabel(coinAt(0, 0, 0, "magnet")), "🧲");
+});
+
+Deno.test("the compass points to the nearest valuable coin", () => {
+  const from = testGrid.getCenter(0, 0);
+  const near = coinAt(1, 0, 5);
+  const best = coinAt(20, 0, 8);
+  const cheap = coinAt(0, 1, 1);
+  assert.equal(compassTarget(from, [best, cheap, near]), near);
+  assert.equal(compassTarget(from, [best, cheap]), best);
+  assert.equal(compassTarget(from, [coinAt(1, 0, 0, "magnet")]), null);
+  assert.equal(compassTarget(from, []), null);
+});
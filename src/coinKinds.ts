@@ -0,0 +1,95 @@
+import type { Coin } from "./generation.ts";
+import { distanceMeters, GeoPoint } from "./grid.ts";
+
+export type CoinKind =
+  | "plain"
+  | "wildcard"
+  | "multiplier"
+  | "magnet"
+  | "compass";
+
+export interface CoinKindRule {
+  label: string;
+  // Shown on markers, popups and the inventory
+  icon: string;
+  description: string;
+  // Used up where it lies instead of being carried and crafted
+  usable: boolean;
+  // Share of the generator's special coins
+  weight: number;
+}
+
+export const COIN_KINDS: Record<CoinKind, CoinKindRule> = {
+  plain: {
+    label: "Coin",
+    icon: "",
+    description: "Crafts with a coin of the same value.",
+    usable: false,
+    weight: 0,
+  },
+  wildcard: {
+    label: "Wildcard coin",
+    icon: "★",
+    description: "Crafts with a coin of any value.",
+    usable: false,
+    weight: 3,
+  },
+  multiplier: {
+    label: "Multiplier coin",
+    icon: "×",
+    description: "Crafts with any coin and multiplies instead of adding.",
+    usable: false,
+    weight: 2,
+  },
+  magnet: {
+    label: "Magnet coin",
+    icon: "🧲",
+    description: "Use it to reach twice as far for a while.",
+    usable: true,
+    weight: 2,
+  },
+  compass: {
+    label: "Compass coin",
+    icon: "🧭",
+    description: "Use it to point to the best coin nearby.",
+    usable: true,
+    weight: 2,
+  },
+};
+
+export function isCoinKind(value: unknown): value is CoinKind {
+  return typeof value === "string" && Object.hasOwn(COIN_KINDS, value);
+}
+
+// Multiplier coins always spawn as ×2 so they double what they craft with
+export const MULTIPLIER_VALUE = 2;
+
+export const MAGNET_REACH_FACTOR = 2;
+export const MAGNET_DURATION_MS = 2 * 60 * 1000;
+
+// Short text for a coin on the map or in the inventory
+export function coinLabel(coin: Coin): string {
+  const { icon, usable } = COIN_KINDS[coin.kind];
+  if (usable) return icon;
+  if (coin.kind === "multiplier") return `×${coin.value}`;
+  return `${icon}${coin.value}`;
+}
+
+// The compass favours value over distance: it points to the nearest of the
+// coins worth at least half as much as the best one around
+export function compassTarget(
+  from: GeoPoint,
+  coins: Coin[],
+): Coin | null {
+  const candidates = coins.filter((coin) => !COIN_KINDS[coin.kind].usable);
+  if (candidates.length === 0) return null;
+  const best = Math.max(...candidates.map((coin) => coin.value));
+  return candidates
+    .filter((coin) => coin.value * 2 >= best)
+    .reduce((nearest, coin) =>
+      distanceMeters(from, coin.position) <
+          distanceMeters(from, nearest.position)
+        ? coin
+        : nearest
+    );
+}
@@ -0,0 +1,92 @@
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+import { COIN_KINDS, coinLabel } from "./coinKinds.ts";
+import type { Coin } from "./generation.ts";
+import type { CoinCluster } from "./levelOfDetail.ts";
+import { SPRITE_SIZE, spriteToDataUrl } from "./sprites.ts";
+
+const MAP_SPRITE_SIZE = 24;
+
+export function createCoinMarker(
+  coin: Coin,
+  withinReach: boolean,
+): leaflet.Marker {
+  const marker = leaflet.marker(coin.position, {
+    icon: leaflet.icon({
+      iconUrl: spriteToDataUrl(coin.sprite),
+      iconSize: [MAP_SPRITE_SIZE, MAP_SPRITE_SIZE],
+      tooltipAnchor: [0, -MAP_SPRITE_SIZE / 2],
+      className: `coin-spawn coin-marker coin-kind-${coin.kind}${
+        withinReach ? "" : " out-of-reach"
+      }`,
+    }),
+    bubblingMouseEvents: false,
+    keyboard: false,
+  });
+  marker.bindTooltip(coinLabel(coin), {
+    permanent: true,
+    direction: "top",
+    className: "coin-tooltip",
+  });
+  return marker;
+}
+
+// A badge with how many coins a super-hex holds and the best of them, for
+// zoomed-out views
+export function createClusterMarker(cluster: CoinCluster): leaflet.Marker {
+  const best = cluster.best > 0 ? `<small>best ${cluster.best}</small>` : "";
+  return leaflet.marker(cluster.center, {
+    icon: leaflet.divIcon({
+      html: `<span class="coin-cluster-count">${cluster.count}</span>${best}`,
+      className: "coin-cluster",
+      iconSize: [MAP_SPRITE_SIZE * 2, MAP_SPRITE_SIZE * 2],
+    }),
+    interactive: false,
+    keyboard: false,
+  });
+}
+
+export function setCoinMarkerReach(
+  marker: leaflet.Marker,
+  withinReach: boolean,
+): void {
+  marker.getElement()?.classList.toggle("out-of-reach", !withinReach);
+}
+
+export function createCoinSpriteImage(coin: Coin): HTMLImageElement {
+  const img = document.createElement("img");
+  img.className = "coin-sprite";
+  img.src = spriteToDataUrl(coin.sprite);
+  img.width = SPRITE_SIZE;
+  img.height = SPRITE_SIZE;
+  img.alt = COIN_KINDS[coin.kind].usable
+    ? COIN_KINDS[coin.kind].label
+    : `${COIN_KINDS[coin.kind].label} worth ${coin.value}`;
+  return img;
+}
+
+export function addCoinEventListeners(
+  marker: leaflet.Marker,
+  coin: Coin,
+  eventBus: EventTarget,
+): void {
+  marker.addEventListener(
+    "mouseover",
+    () =>
+      eventBus.dispatchEvent(
+        new CustomEvent("coin-hovered", { detail: { coin } }),
+      ),
+  );
+  marker.addEventListener(
+    "mouseout",
+    () =>
+      eventBus.dispatchEvent(
+        new CustomEvent("coin-unhovered", { detail: { coin } }),
+      ),
+  );
+  marker.addEventListener("click", () => {
+    eventBus.dispatchEvent(
+      new CustomEvent("coin-clicked", { detail: { coin } }),
+    );
+  });
+}
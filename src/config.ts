@@ -1,3 +1,11 @@
-export const config = {
+import { DEFAULT_KEY_BINDINGS } from "./input.ts";
+import type { GameConfig } from "./serialization.ts";
+
+// How long click-to-travel waits between hex steps
+export const DEFAULT_TRAVEL_STEP_MS = 250;
+
+export const config: GameConfig = {
   debugMovement: false,
+  keyBindings: { ...DEFAULT_KEY_BINDINGS },
+  travelStepMs: DEFAULT_TRAVEL_STEP_MS,
 };
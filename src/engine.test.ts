@@ -0,0 +1,354 @@
+import assert from "node:assert/strict";
+import { CoinKind, MAGNET_REACH_FACTOR } from "./coinKinds.ts";
+import {
+  CoinCraftedEventDetail,
+  GameEngine,
+  WINNING_COIN_VALUE,
+} from "./engine.ts";
+import { createCoinMemento, regrowthTime } from "./generation.ts";
+import { CellInstance, SharedCellData } from "./grid.ts";
+import { hexSpiral } from "./hex.ts";
+import { regionOf } from "./storage.ts";
+import { coinAt as testCoinAt } from "./testCoins.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+
+const REACH = 60; // meters
+
+function setup() {
+  const eventBus = new EventTarget();
+  const grid = new SharedCellData({ lat: 0, lng: 0 });
+  const engine = new GameEngine(eventBus, grid, {
+    position: grid.getCenter(0, 0),
+    reach: REACH,
+  });
+  const events: { type: string; detail: unknown }[] = [];
+  for (
+    const type of [
+      "coin-picked-up",
+      "coin-swapped",
+      "coin-crafted",
+      "coin-placed",
+      "game-won",
+      "cells-regrown",
+      "coin-used",
+      "reach-changed",
+    ]
+  ) {
+    eventBus.addEventListener(type, (event) => {
+      events.push({ type, detail: (event as CustomEvent).detail });
+    });
+  }
+  const coinAt = (q: number, r: number, value: number, kind?: CoinKind) =>
+    testCoinAt(q, r, value, kind, grid);
+  return { engine, grid, events, coinAt };
+}
+
+Deno.test("pickUp moves a coin into empty hands and tombstones its cell", () => {
+  const { engine, events, coinAt } = setup();
+  const coin = coinAt(1, 0, 4);
+  assert.equal(engine.pickUp(coin), true);
+  assert.equal(engine.inventory.coin, coin);
+  assert.equal(engine.persisted.get("1,0"), null);
+  assert.equal(coin.history.at(-1)?.kind, "picked-up");
+  assert.deepEqual(events.map((e) => e.type), ["coin-picked-up"]);
+});
+
+Deno.test("pickUp is refused with full hands or out of reach", () => {
+  const { engine, events, coinAt } = setup();
+  assert.equal(engine.pickUp(coinAt(100, 0, 1)), false);
+  engine.pickUp(coinAt(1, 0, 1));
+  assert.equal(engine.pickUp(coinAt(0, 1, 1)), false);
+  assert.equal(engine.persisted.get("0,1"), undefined);
+  assert.equal(events.length, 1);
+});
+
+Deno.test("swap puts the held coin down in the target's cell", () => {
+  const { engine, events, coinAt } = setup();
+  const held = coinAt(1, 0, 2);
+  const target = coinAt(0, 1, 5);
+  engine.pickUp(held);
+  assert.equal(engine.swap(target), true);
+
+  assert.equal(engine.inventory.coin, target);
+  assert.equal(held.cell.id, "0,1");
+  assert.deepEqual(held.position, target.position);
+  assert.equal(engine.persisted.get("0,1")?.id, held.id);
+  assert.equal(engine.persisted.get("1,0"), null);
+
+  const heldEvent = held.history.at(-1);
+  const targetEvent = target.history.at(-1);
+  assert.equal(
+    heldEvent?.kind === "swapped" && heldEvent.otherCoinId,
+    target.id,
+  );
+  assert.equal(
+    targetEvent?.kind === "swapped" && targetEvent.otherCoinId,
+    held.id,
+  );
+  assert.deepEqual(events.at(-1), {
+    type: "coin-swapped",
+    detail: { coin: target, placed: held },
+  });
+});
+
+Deno.test("swap needs a held coin", () => {
+  const { engine, coinAt } = setup();
+  assert.equal(engine.swap(coinAt(1, 0, 3)), false);
+  assert.equal(engine.inventory.coin, null);
+});
+
+Deno.test("craft combines equal coins into their sum", () => {
+  const { engine, events, coinAt } = setup();
+  const held = coinAt(1, 0, 8);
+  const target = coinAt(0, 1, 8);
+  engine.pickUp(held);
+  assert.equal(engine.craft(target), true);
+
+  const crafted = engine.inventory.coin!;
+  assert.equal(crafted.value, 16);
+  assert.equal(crafted.id, `coin-${held.id}-${target.id}`);
+  const last = crafted.history.at(-1);
+  assert.equal(last?.kind, "crafted");
+  assert.deepEqual(last?.kind === "crafted" && last.parents, [
+    held.id,
+    target.id,
+  ]);
+  assert.equal(engine.persisted.get("0,1"), null);
+  assert.deepEqual(events.at(-1), {
+    type: "coin-crafted",
+    detail: { coin: crafted, consumed: [target] },
+  });
+});
+
+Deno.test("craft is refused when values differ", () => {
+  const { engine, coinAt } = setup();
+  const held = coinAt(1, 0, 2);
+  engine.pickUp(held);
+  const target = coinAt(0, 1, 4);
+  assert.equal(engine.craft(target), false);
+  assert.equal(engine.inventory.coin, held);
+  assert.equal(engine.persisted.get("0,1"), undefined);
+  const craft = engine.getActions(target).find((a) => a.kind === "craft");
+  assert.equal(craft?.reason, "Values differ (2 ≠ 4)");
+});
+
+Deno.test("crafting the winning value emits game-won", () => {
+  const half = WINNING_COIN_VALUE / 2;
+  const { engine, events, coinAt } = setup();
+  engine.pickUp(coinAt(1, 0, half));
+  engine.craft(coinAt(0, 1, half));
+  assert.deepEqual(events.map((e) => e.type), [
+    "coin-picked-up",
+    "coin-crafted",
+    "game-won",
+  ]);
+});
+
+Deno.test("place drops the held coin into a cell in reach", () => {
+  const { engine, grid, events, coinAt } = setup();
+  const coin = coinAt(1, 0, 3);
+  engine.pickUp(coin);
+  assert.equal(engine.place(new CellInstance(100, 0, grid)), false);
+  // Never over a generated coin
+  const generated = hexSpiral({ q: 0, r: 0 }, 2)
+    .map(({ q, r }) => new CellInstance(q, r, grid))
+    .find((cell) =>
+      engine.isWithinReach(cell.center) && engine.coinIn(cell.coord)
+    )!;
+  assert.equal(engine.place(generated), false);
+  engine.persisted.set("-1,1", null);
+  assert.equal(engine.place(new CellInstance(-1, 1, grid)), true);
+  assert.equal(engine.inventory.coin, null);
+  assert.equal(coin.cell.id, "-1,1");
+  assert.equal(coin.history.at(-1)?.kind, "placed");
+  assert.equal(engine.persisted.get("-1,1")?.id, coin.id);
+  assert.equal(events.at(-1)?.type, "coin-placed");
+});
+
+Deno.test("place waits for the cell's region to load", async () => {
+  const { engine, grid, coinAt } = setup();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, spawnProbability: 0 });
+  engine.pickUp(coinAt(1, 0, 3));
+  engine.persisted.setSource(() => Promise.resolve([]), { cells: 0, coins: 0 });
+  const cell = new CellInstance(-1, 1, grid);
+  assert.equal(engine.place(cell), false);
+  assert.notEqual(engine.inventory.coin, null);
+  await engine.persisted.ensureRegionsLoaded(new Set([regionOf(cell.id)]));
+  assert.equal(engine.place(cell), true);
+});
+
+Deno.test("reset empties the inventory and persisted cells", () => {
+  const { engine, coinAt } = setup();
+  engine.pickUp(coinAt(1, 0, 3));
+  engine.reset();
+  assert.equal(engine.inventory.coin, null);
+  assert.deepEqual(engine.persisted.getEntries(), []);
+  assert.equal(engine.persisted.takeChanges().replace, true);
+});
+
+Deno.test("emptied cells regrow after a varied cooldown", () => {
+  const { engine, events, coinAt } = setup();
+  const hour = 60 * 60 * 1000;
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, regrowMs: hour });
+  engine.persisted.set("1,0", null, 0);
+  engine.persisted.set("0,1", null, 0);
+  const regrowsAt = ["1,0", "0,1"].map((id) => {
+    const [q, r] = id.split(",").map(Number);
+    return regrowthTime({ q, r }, 0, engine.settings);
+  });
+  for (const time of regrowsAt) {
+    assert.ok(time >= hour / 2 && time < hour * 1.5);
+  }
+  assert.notEqual(regrowsAt[0], regrowsAt[1]);
+
+  const [first, second] = regrowsAt[0] < regrowsAt[1]
+    ? ["1,0", "0,1"]
+    : ["0,1", "1,0"];
+  const early = Math.min(...regrowsAt);
+  assert.deepEqual(engine.regrowExpired(early - 1), []);
+  assert.equal(engine.persisted.get(first, early - 1), null);
+  assert.notEqual(engine.persisted.get(first, early), null);
+  assert.deepEqual(engine.regrowExpired(early), [first]);
+  assert.deepEqual(events.at(-1), {
+    type: "cells-regrown",
+    detail: { cellIds: [first] },
+  });
+  assert.equal(engine.persisted.get(second, early), null);
+
+  // Coins placed on the map never expire
+  engine.pickUp(coinAt(1, -1, 3));
+  engine.place(new CellInstance(1, -1, engine.grid));
+  assert.ok(engine.persisted.get("1,-1", Infinity));
+});
+
+Deno.test("regrown cells hold a new coin each time", () => {
+  const { engine, grid } = setup();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, regrowMs: 1000 });
+  const cell = hexSpiral({ q: 0, r: 0 }, 1)
+    .map(({ q, r }) => new CellInstance(q, r, grid))
+    .find((cell) => engine.coinIn(cell.coord))!;
+  const ids = new Set<string>();
+  for (let i = 0; i < 3; i++) {
+    const coin = engine.coinIn(cell.coord)!;
+    ids.add(coin.id);
+    engine.persisted.set(cell.id, null, i * 10_000);
+    assert.deepEqual(engine.regrowExpired(i * 10_000 + 5000), [cell.id]);
+  }
+  assert.equal(ids.size, 3);
+  assert.deepEqual(engine.persisted.getStats(), { cells: 1, coins: 1 });
+  // The regrown coin is saved, so reloads find the same one
+  assert.equal(
+    engine.persisted.get(cell.id)?.id,
+    engine.coinIn(cell.coord)?.id,
+  );
+
+  // Cells that started without a coin stay empty
+  engine.applySettings({
+    ...DEFAULT_WORLD_SETTINGS,
+    regrowMs: 1000,
+    spawnProbability: 0,
+  });
+  engine.persisted.set(cell.id, null, 0);
+  assert.deepEqual(engine.regrowExpired(5000), [cell.id]);
+  assert.equal(engine.coinIn(cell.coord), undefined);
+  assert.deepEqual(engine.persisted.getStats(), { cells: 0, coins: 0 });
+});
+
+Deno.test("cells never regrow without a cooldown", () => {
+  const { engine } = setup();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, regrowMs: null });
+  engine.persisted.set("1,0", null, 0);
+  assert.deepEqual(engine.regrowExpired(Number.MAX_SAFE_INTEGER), []);
+  assert.equal(engine.persisted.get("1,0", Number.MAX_SAFE_INTEGER), null);
+});
+
+Deno.test("wildcards craft with any value and multipliers multiply", () => {
+  const { engine, coinAt } = setup();
+  engine.pickUp(coinAt(1, 0, 3));
+  assert.equal(engine.craft(coinAt(0, 1, 5, "wildcard")), true);
+  assert.equal(engine.inventory.coin?.value, 8);
+  assert.equal(engine.inventory.coin?.kind, "plain");
+  assert.equal(engine.craft(coinAt(-1, 1, 2, "multiplier")), true);
+  assert.equal(engine.inventory.coin?.value, 16);
+  assert.equal(engine.craft(coinAt(-1, 0, 3)), false);
+});
+
+Deno.test("magnets are used where they lie and stretch reach", () => {
+  const { engine, events, coinAt } = setup();
+  const magnet = coinAt(1, 0, 0, "magnet");
+  assert.deepEqual(
+    engine.getActions(magnet).map((action) => action.kind),
+    ["use"],
+  );
+  assert.equal(engine.pickUp(magnet), false);
+  assert.equal(engine.use(coinAt(0, 1, 4)), false);
+
+  assert.equal(engine.use(magnet), true);
+  assert.equal(engine.persisted.get("1,0"), null);
+  assert.equal(engine.player.reach, REACH * MAGNET_REACH_FACTOR);
+  assert.deepEqual(events.map((e) => e.type), ["reach-changed", "coin-used"]);
+  // Clears the magnet's timer along with everything else
+  engine.reset();
+  assert.equal(engine.player.reach, REACH);
+});
+
+Deno.test("craft can use a recipe that takes a neighboring coin", () => {
+  const { engine, events, coinAt } = setup();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, spawnProbability: 0 });
+  const neighbor = coinAt(0, 2, 4);
+  engine.persisted.set("0,2", createCoinMemento(neighbor));
+  engine.pickUp(coinAt(1, 0, 4));
+  const target = coinAt(0, 1, 4);
+  assert.deepEqual(
+    engine.getActions(target)
+      .filter((action) => action.kind === "craft")
+      .map((action) => action.recipe?.id),
+    ["pair", "trio"],
+  );
+  assert.equal(engine.craft(target, "trio"), true);
+  assert.equal(engine.inventory.coin?.value, 12);
+  assert.equal(engine.persisted.get("0,2"), null);
+  const last = engine.inventory.coin?.history.at(-1);
+  assert.equal(last?.kind === "crafted" && last.recipe, "trio");
+  assert.deepEqual(
+    (events.at(-1)?.detail as CoinCraftedEventDetail).consumed.map((c) => c.id),
+    [target.id, neighbor.id],
+  );
+  assert.equal(engine.craft(coinAt(-1, 1, 12), "trio"), false);
+});
+
+Deno.test("craft ignores neighboring coins out of reach", () => {
+  const { engine, coinAt } = setup();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, spawnProbability: 0 });
+  // The target is just in reach, the coin beside it just out of it
+  engine.persisted.set("7,0", createCoinMemento(coinAt(7, 0, 4)));
+  engine.pickUp(coinAt(1, 0, 4));
+  const target = coinAt(6, 0, 4);
+  assert.equal(engine.isWithinReach(target.position), true);
+  assert.equal(engine.craft(target, "trio"), false);
+  assert.notEqual(engine.persisted.get("7,0"), null);
+  assert.equal(engine.craft(target, "pair"), true);
+});
+
+Deno.test("larger inventories pick up into free slots and craft from any", () => {
+  const { engine, coinAt } = setup();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, inventorySlots: 2 });
+  assert.equal(engine.pickUp(coinAt(1, 0, 4)), true);
+  assert.equal(engine.pickUp(coinAt(0, 1, 12)), true);
+  assert.equal(engine.inventory.activeSlot, 1);
+  const full = engine.getActions(coinAt(-1, 1, 4))
+    .find((action) => action.kind === "pick-up");
+  assert.equal(full?.reason, "Your hands are full");
+
+  // The active slot holds the 12, but the 4 in slot 0 can still craft
+  const target = coinAt(-1, 1, 4);
+  assert.equal(engine.craft(target), false);
+  assert.equal(engine.craft(target, "pair", 0), true);
+  assert.deepEqual(engine.inventory.slots.map((coin) => coin?.value), [8, 12]);
+
+  assert.equal(engine.place(new CellInstance(-1, 0, engine.grid), 1), true);
+  assert.deepEqual(engine.inventory.slots.map((coin) => coin?.value ?? null), [
+    8,
+    null,
+  ]);
+});
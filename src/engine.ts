@@ -0,0 +1,298 @@
+import { MAGNET_DURATION_MS, MAGNET_REACH_FACTOR } from "./coinKinds.ts";
+import {
+  Coin,
+  CoinAction,
+  CoinActionKind,
+  CoinGenerator,
+  CoinMemento,
+  craftCoin,
+  createCoinMemento,
+  getCoinActions,
+  regrowthTime,
+  restoreCoinFromMemento,
+} from "./generation.ts";
+import {
+  CellInstance,
+  distanceMeters,
+  GeoPoint,
+  SharedCellData,
+} from "./grid.ts";
+import { HexCoord, hexNeighbors } from "./hex.ts";
+import { eventAt } from "./history.ts";
+import { PersistedCells } from "./persistedCells.ts";
+import { Inventory, PlayerRadius } from "./player.ts";
+import {
+  BUILT_IN_RECIPES,
+  CraftContext,
+  RecipeOutput,
+  RecipeRegistry,
+} from "./recipes.ts";
+import { regionOf } from "./storage.ts";
+import { DEFAULT_WORLD_SETTINGS, WorldSettings } from "./worldSettings.ts";
+
+export const WINNING_COIN_VALUE = 256;
+
+export type CoinPickedUpEventDetail = { coin: Coin };
+// `placed` is the coin that was held and now lies where `coin` was
+export type CoinSwappedEventDetail = { coin: Coin; placed: Coin };
+// `coin` is the crafted result; the `consumed` coins were taken off the map
+// to make it: the target first, then any others the recipe used
+export type CoinCraftedEventDetail = { coin: Coin; consumed: Coin[] };
+export type CoinPlacedEventDetail = { coin: Coin };
+export type GameWonEventDetail = { coin: Coin };
+// A special coin was used up where it lay; see COIN_KINDS
+export type CoinUsedEventDetail = { coin: Coin };
+export type ReachChangedEventDetail = { reach: number };
+// Emptied cells whose coin has grown back
+export type CellsRegrownEventDetail = { cellIds: string[] };
+
+// The rules of the game, free of Leaflet and the DOM. Each command checks it
+// is allowed, updates the inventory and persisted cells, and reports what
+// happened as an event on the eventBus. Refused commands return false.
+export class GameEngine {
+  readonly inventory: Inventory;
+  readonly persisted = new PersistedCells();
+  readonly generator = new CoinGenerator();
+  readonly recipes = new RecipeRegistry(BUILT_IN_RECIPES);
+  private worldSettings: WorldSettings = DEFAULT_WORLD_SETTINGS;
+  private magnetTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private eventBus: EventTarget,
+    readonly grid: SharedCellData,
+    readonly player: PlayerRadius,
+  ) {
+    this.inventory = new Inventory(eventBus);
+    this.useRegrowthRule(this.worldSettings);
+  }
+
+  get settings(): WorldSettings {
+    return this.worldSettings;
+  }
+
+  // Only between games: cells already on the map keep their old size
+  applySettings(settings: WorldSettings): void {
+    this.worldSettings = settings;
+    this.grid.size = settings.cellSize;
+    this.grid.projection = settings.projection;
+    this.stopMagnet();
+    this.player.reach = settings.reach;
+    this.inventory.clear(settings.inventorySlots);
+    this.generator.configure(settings);
+    this.useRegrowthRule(settings);
+  }
+
+  private useRegrowthRule(settings: WorldSettings): void {
+    const cellOf = (cellId: string) => {
+      const [q, r] = cellId.split(",").map(Number);
+      return new CellInstance(q, r, this.grid);
+    };
+    this.persisted.setRegrowth(
+      (cellId, emptiedAt) =>
+        regrowthTime(cellOf(cellId).coord, emptiedAt, settings),
+      (cellId, emptiedAt) => {
+        const coin = this.generator.generateCoinForCell(
+          cellOf(cellId),
+          emptiedAt,
+        );
+        return coin ? createCoinMemento(coin) : null;
+      },
+    );
+  }
+
+  isWithinReach(point: GeoPoint): boolean {
+    return distanceMeters(point, this.player.position) <= this.player.reach;
+  }
+
+  // Swaps and crafts use the coin in `slot`
+  getActions(
+    coin: Coin,
+    slot: number = this.inventory.activeSlot,
+  ): CoinAction[] {
+    const held = this.inventory.coinIn(slot);
+    return getCoinActions(
+      held,
+      coin,
+      this.isWithinReach(coin.position),
+      held ? this.recipes.options(held, coin, this.craftContext(coin)) : [],
+      this.inventory.firstFreeSlot() !== null,
+    );
+  }
+
+  // The coin a cell holds now: a placed one, none if it was emptied, or
+  // else the one it generates
+  coinIn(coord: HexCoord): Coin | undefined {
+    const cell = new CellInstance(coord.q, coord.r, this.grid);
+    if (!this.persisted.isRegionReady(regionOf(cell.id))) return undefined;
+    const memento = this.persisted.get(cell.id);
+    if (memento === null) return undefined;
+    return memento
+      ? restoreCoinFromMemento(memento, this.grid)
+      : this.generator.generateCoinForCell(cell);
+  }
+
+  private craftContext(target: Coin): CraftContext {
+    const neighbors = hexNeighbors(target.cell.coord)
+      .map((coord) => this.coinIn(coord))
+      .filter((coin) => coin !== undefined)
+      .filter((coin) => this.isWithinReach(coin.position));
+    return { neighbors };
+  }
+
+  private isAllowed(
+    kind: CoinActionKind,
+    coin: Coin,
+    slot: number = this.inventory.activeSlot,
+  ): boolean {
+    return this.getActions(coin, slot).some(
+      (action) => action.kind === kind && action.enabled,
+    );
+  }
+
+  private emit<T>(type: string, detail: T): void {
+    this.eventBus.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  pickUp(coin: Coin): boolean {
+    if (!this.isAllowed("pick-up", coin)) return false;
+    this.persisted.set(coin.cell.id, null);
+    coin.history.push({ kind: "picked-up", ...eventAt(coin.cell) });
+    // Into the active slot if it is free, else the first free one, which
+    // becomes active so the new coin is ready to use
+    const slot = this.inventory.hasItem()
+      ? this.inventory.firstFreeSlot()!
+      : this.inventory.activeSlot;
+    this.inventory.swapItem(coin, slot);
+    this.inventory.select(slot);
+    this.emit<CoinPickedUpEventDetail>("coin-picked-up", { coin });
+    return true;
+  }
+
+  // The coin in `slot` is put down in the target's cell
+  swap(coin: Coin, slot: number = this.inventory.activeSlot): boolean {
+    if (!this.isAllowed("swap", coin, slot)) return false;
+    const placed = this.inventory.swapItem(coin, slot)!;
+    coin.history.push({
+      kind: "swapped",
+      otherCoinId: placed.id,
+      ...eventAt(coin.cell),
+    });
+    placed.position = coin.position;
+    placed.cell = coin.cell;
+    placed.history.push({
+      kind: "swapped",
+      otherCoinId: coin.id,
+      ...eventAt(coin.cell),
+    });
+    this.persisted.set(coin.cell.id, createCoinMemento(placed));
+    this.emit<CoinSwappedEventDetail>("coin-swapped", { coin, placed });
+    return true;
+  }
+
+  // Without a recipe id, the first recipe that applies is used. The crafted
+  // coin takes the place of the one in `slot`.
+  craft(
+    coin: Coin,
+    recipeId?: string,
+    slot: number = this.inventory.activeSlot,
+  ): boolean {
+    const recipe = this.getActions(coin, slot).find((action) =>
+      action.kind === "craft" && action.enabled &&
+      (recipeId === undefined || action.recipe?.id === recipeId)
+    )?.recipe;
+    if (!recipe) return false;
+    const held = this.inventory.coinIn(slot)!;
+    const output = recipe.match(
+      held,
+      coin,
+      this.craftContext(coin),
+    ) as RecipeOutput;
+    const consumed = [coin, ...output.extra ?? []];
+    for (const used of consumed) this.persisted.set(used.cell.id, null);
+    const crafted = craftCoin(
+      held,
+      coin,
+      recipe.id,
+      output,
+      this.worldSettings.seed,
+    );
+    this.inventory.swapItem(crafted, slot);
+    this.emit<CoinCraftedEventDetail>("coin-crafted", {
+      coin: crafted,
+      consumed,
+    });
+    if (crafted.value >= WINNING_COIN_VALUE) {
+      this.emit<GameWonEventDetail>("game-won", { coin: crafted });
+    }
+    return true;
+  }
+
+  use(coin: Coin): boolean {
+    if (!this.isAllowed("use", coin)) return false;
+    this.persisted.set(coin.cell.id, null);
+    if (coin.kind === "magnet") this.startMagnet();
+    this.emit<CoinUsedEventDetail>("coin-used", { coin });
+    return true;
+  }
+
+  // Another magnet restarts the clock rather than stacking
+  private startMagnet(): void {
+    this.stopMagnet();
+    this.player.reach = this.worldSettings.reach * MAGNET_REACH_FACTOR;
+    this.magnetTimer = setTimeout(() => {
+      this.stopMagnet();
+      this.player.reach = this.worldSettings.reach;
+      this.emit<ReachChangedEventDetail>("reach-changed", {
+        reach: this.player.reach,
+      });
+    }, MAGNET_DURATION_MS);
+    this.emit<ReachChangedEventDetail>("reach-changed", {
+      reach: this.player.reach,
+    });
+  }
+
+  private stopMagnet(): void {
+    if (this.magnetTimer !== null) clearTimeout(this.magnetTimer);
+    this.magnetTimer = null;
+  }
+
+  // Only into an empty cell in reach, once its region has loaded
+  place(
+    cell: CellInstance,
+    slot: number = this.inventory.activeSlot,
+  ): boolean {
+    const coin = this.inventory.coinIn(slot);
+    if (!coin || !this.isWithinReach(cell.center)) return false;
+    // Until its region has loaded, a cell may hold a coin not known yet
+    if (!this.persisted.isRegionReady(regionOf(cell.id))) return false;
+    if (this.coinIn(cell.coord)) return false;
+    coin.position = cell.center;
+    coin.cell = cell;
+    coin.history.push({ kind: "placed", ...eventAt(cell) });
+    this.inventory.removeItem(slot);
+    this.persisted.set(cell.id, createCoinMemento(coin));
+    this.emit<CoinPlacedEventDetail>("coin-placed", { coin });
+    return true;
+  }
+
+  restoreCoin(memento: CoinMemento): Coin {
+    return restoreCoinFromMemento(memento, this.grid);
+  }
+
+  // Call now and then. Tombstones in regions that are not loaded are
+  // collected once the player comes near them again.
+  regrowExpired(now: number = Date.now()): string[] {
+    const cellIds = this.persisted.collectExpired(now);
+    if (cellIds.length > 0) {
+      this.emit<CellsRegrownEventDetail>("cells-regrown", { cellIds });
+    }
+    return cellIds;
+  }
+
+  reset(): void {
+    this.inventory.clear();
+    this.persisted.clear();
+    this.stopMagnet();
+    this.player.reach = this.worldSettings.reach;
+  }
+}
@@ -1,40 +1,69 @@
-// @deno-types="npm:@types/leaflet"
-import leaflet from "leaflet";
-
+import { biomeAt } from "./biomes.ts";
+import { COIN_KINDS, CoinKind, MULTIPLIER_VALUE } from "./coinKinds.ts";
 // Import world generation
-import { CellInstance } from "./world.ts";
+import { CellInstance, GeoPoint, SharedCellData } from "./grid.ts";
+import { HexCoord } from "./hex.ts";
 
-// Import our luck function
-import luck from "./_luck.ts";
+import { CoinHistoryEvent, eventAt, mergeHistories } from "./history.ts";
+import type { Recipe, RecipeOption, RecipeOutput } from "./recipes.ts";
+import { blendSprites, generateCoinSprite } from "./sprites.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  mixSeed,
+  sampleValue,
+  worldLuck,
+  WorldSettings,
+} from "./worldSettings.ts";
 
 export interface Coin {
   id: string;
+  kind: CoinKind;
   value: number;
-  position: leaflet.LatLng;
+  position: GeoPoint;
   cell: CellInstance;
-  history: string[];
-  sprite?: string; // Placeholder for procedural sprite
+  history: CoinHistoryEvent[];
+  sprite: string;
 }
 
 export interface CoinMemento {
   id: string;
+  // Missing on coins saved before there were special kinds
+  kind?: CoinKind;
   value: number;
   lat: number;
   lng: number;
   q: number;
   r: number;
-  history: string[];
+  history: CoinHistoryEvent[];
+  sprite?: string;
 }
 
 export function createCoinMemento(coin: Coin): CoinMemento {
   return {
     id: coin.id,
+    kind: coin.kind,
     value: coin.value,
     lat: coin.position.lat,
     lng: coin.position.lng,
     q: coin.cell.q,
     r: coin.cell.r,
     history: [...coin.history],
+    sprite: coin.sprite,
+  };
+}
+
+export function restoreCoinFromMemento(
+  memento: CoinMemento,
+  grid: SharedCellData,
+): Coin {
+  return {
+    id: memento.id,
+    kind: memento.kind ?? "plain",
+    value: memento.value,
+    position: { lat: memento.lat, lng: memento.lng },
+    cell: new CellInstance(memento.q, memento.r, grid),
+    history: [...memento.history],
+    sprite: memento.sprite ?? generateCoinSprite(memento.id, memento.value),
   };
 }
 
@@ -42,45 +71,216 @@ export type CoinHoveredEventDetail = {
   coin: Coin;
 };
 
-export function craftCoin(coinA: Coin, coinB: Coin): Coin {
-  const newValue = coinA.value + coinB.value;
+export type CoinActionKind = "pick-up" | "swap" | "craft" | "use";
+
+export interface CoinAction {
+  kind: CoinActionKind;
+  enabled: boolean;
+  reason: string | null;
+  // Set on craft actions: each possible recipe gets its own action
+  recipe?: Recipe;
+}
+
+// `crafts` are the recipe options for the held coin and the target;
+// `freeSlot` says whether the inventory has room for another coin
+export function getCoinActions(
+  heldCoin: Coin | null,
+  target: Coin,
+  withinReach: boolean,
+  crafts: RecipeOption[] = [],
+  freeSlot: boolean = heldCoin === null,
+): CoinAction[] {
+  const action = (kind: CoinActionKind, reason: string | null) => ({
+    kind,
+    enabled: reason === null,
+    reason,
+  });
+  const tooFar = withinReach ? null : "Too far away";
+  // Usable coins work where they lie and are never carried
+  if (COIN_KINDS[target.kind].usable) return [action("use", tooFar)];
+  if (tooFar) {
+    return [
+      action("pick-up", tooFar),
+      action("swap", tooFar),
+      action("craft", tooFar),
+    ];
+  }
+  const emptyHanded = "You are not holding a coin";
+  const possible = crafts.filter(({ output }) => typeof output !== "string");
+  // With nothing to craft, the first recipe explains why
+  const refusal = crafts.find(({ output }) => typeof output === "string")
+    ?.output as string | undefined;
+  const craftActions = possible.length > 0
+    ? possible.map(({ recipe }) => ({ ...action("craft", null), recipe }))
+    : [action("craft", heldCoin ? refusal ?? "No recipe fits" : emptyHanded)];
+  return [
+    action("pick-up", freeSlot ? null : "Your hands are full"),
+    action("swap", heldCoin ? null : emptyHanded),
+    ...craftActions,
+  ];
+}
+
+// The craft takes place where coinB lies, so the crafted event is recorded
+// there. Callers check the recipe applies and pass what it made.
+export function craftCoin(
+  coinA: Coin,
+  coinB: Coin,
+  recipeId: string,
+  output: RecipeOutput,
+  worldSeed = "",
+): Coin {
+  const parents = [coinA, coinB, ...output.extra ?? []];
+  const newId = `coin-${parents.map((parent) => parent.id).join("-")}`;
   const newCoin: Coin = {
-    id: `coin-${coinA.id}-${coinB.id}`,
-    value: newValue,
+    id: newId,
+    kind: output.kind ?? "plain",
+    value: output.value,
     position: coinA.position, // For simplicity, use position of first coin
     cell: coinA.cell,
     history: [
-      ...coinA.history,
-      ...coinB.history,
-      `Crafted new coin with value ${newValue}`,
+      ...mergeHistories(...parents.map((parent) => parent.history)),
+      {
+        kind: "crafted",
+        value: output.value,
+        parents: parents.map((parent) => parent.id),
+        recipe: recipeId,
+        ...eventAt(coinB.cell),
+      },
     ],
+    sprite: parents.slice(1).reduce(
+      (sprite, parent) =>
+        blendSprites(sprite, parent.sprite, mixSeed(worldSeed, newId)),
+      coinA.sprite,
+    ),
   };
   return newCoin;
 }
 
+// Seeds for the coin a cell starts with, or for the one it regrows after
+// being emptied at `regrownAt`
+function coinSeed(
+  { q, r }: HexCoord,
+  regrownAt: number | undefined,
+  step: string,
+): string {
+  return (regrownAt === undefined ? [q, r, step] : [q, r, regrownAt, step])
+    .toString();
+}
+
+// The value of the coin a cell starts with, or null for an empty cell. Only
+// depends on the cell and the world settings, so reloads regenerate the same
+// coins. A regrown cell rolls a new value, but only cells that started with a
+// coin grow one back.
+export function rollCoinValue(
+  coord: HexCoord,
+  settings: WorldSettings,
+  regrownAt?: number,
+): number | null {
+  const { seed } = settings;
+  const { q, r } = coord;
+  const biome = biomeAt(coord, seed);
+  const chance = settings.spawnProbability * biome.density;
+  if (worldLuck(seed, `${q},${r}`) >= chance) return null;
+  const { rare } = biome;
+  if (
+    rare && worldLuck(seed, coinSeed(coord, regrownAt, "rare")) < rare.chance
+  ) {
+    const pick = worldLuck(seed, coinSeed(coord, regrownAt, "rare-value"));
+    return rare.values[Math.floor(pick * rare.values.length)];
+  }
+  const roll = worldLuck(seed, coinSeed(coord, regrownAt, "value"));
+  return sampleValue(settings.valueDistribution, roll ** (1 / biome.richness));
+}
+
+// Share of spawned coins that are a special kind
+const SPECIAL_COIN_CHANCE = 0.04;
+
+// Special kinds are rolled separately from the value so a cell's kind and
+// value are both fixed by its coordinates
+export function rollCoinKind(
+  coord: HexCoord,
+  settings: WorldSettings,
+  regrownAt?: number,
+): CoinKind {
+  const { seed } = settings;
+  if (
+    worldLuck(seed, coinSeed(coord, regrownAt, "kind")) >= SPECIAL_COIN_CHANCE
+  ) {
+    return "plain";
+  }
+  const kinds = (Object.keys(COIN_KINDS) as CoinKind[])
+    .filter((kind) => COIN_KINDS[kind].weight > 0);
+  const total = kinds.reduce((sum, kind) => sum + COIN_KINDS[kind].weight, 0);
+  let remaining = worldLuck(seed, coinSeed(coord, regrownAt, "kind-pick")) *
+    total;
+  for (const kind of kinds) {
+    remaining -= COIN_KINDS[kind].weight;
+    if (remaining < 0) return kind;
+  }
+  return kinds.at(-1)!;
+}
+
+// When a cell emptied at `emptiedAt` grows its coin back, varied per cell and
+// per emptying so neighborhoods do not all refill at once
+export function regrowthTime(
+  coord: HexCoord,
+  emptiedAt: number,
+  settings: WorldSettings,
+): number {
+  if (settings.regrowMs === null) return Infinity;
+  const variation = worldLuck(
+    settings.seed,
+    [coord.q, coord.r, emptiedAt, "regrow"].toString(),
+  );
+  return emptiedAt + settings.regrowMs * (0.5 + variation);
+}
+
 export class CoinGenerator {
   private coins: Map<string, Coin> = new Map();
 
   constructor(
-    private spawnProbability: number = 0.1,
+    private settings: WorldSettings = DEFAULT_WORLD_SETTINGS,
   ) {}
 
-  generateCoinForCell(cell: CellInstance): Coin | undefined {
-    if (luck(cell.id) < this.spawnProbability) {
-      return this.spawnCoin(cell);
-    }
-    return undefined;
+  configure(settings: WorldSettings): void {
+    this.settings = settings;
+    this.coins.clear();
   }
 
-  private spawnCoin(cell: CellInstance): Coin {
-    const value = Math.floor(luck([cell.q, cell.r, "value"].toString()) * 10) +
-      1; // Values 1-10 for D3.a
+  // `regrownAt` is when the cell was emptied, for the coin it grows back
+  generateCoinForCell(
+    cell: CellInstance,
+    regrownAt?: number,
+  ): Coin | undefined {
+    const value = rollCoinValue(cell.coord, this.settings, regrownAt);
+    return value === null ? undefined : this.spawnCoin(cell, value, regrownAt);
+  }
+
+  private spawnCoin(
+    cell: CellInstance,
+    rolledValue: number,
+    regrownAt: number | undefined,
+  ): Coin {
+    const { seed } = this.settings;
+    // Every regrowth gets its own id, so ids stay unique
+    const id = regrownAt === undefined
+      ? `coin-${cell.id}`
+      : `coin-${cell.id}-${regrownAt}`;
+    const kind = rollCoinKind(cell.coord, this.settings, regrownAt);
+    // Usable coins are never crafted, so they carry no value
+    const value = kind === "multiplier"
+      ? MULTIPLIER_VALUE
+      : COIN_KINDS[kind].usable
+      ? 0
+      : rolledValue;
     const coin: Coin = {
-      id: `coin-${cell.id}`,
+      id,
+      kind,
       value,
       position: cell.center,
       cell,
-      history: [`Spawned in cell ${cell.id}`],
+      history: [{ kind: "spawned", ...eventAt(cell) }],
+      sprite: generateCoinSprite(mixSeed(seed, id), value),
     };
     this.coins.set(coin.id, coin);
     return coin;
@@ -100,50 +300,3 @@ export class CoinGenerator {
     return coin;
   }
 }
-
-export function createCoinMarker(
-  coin: Coin,
-  withinReach: boolean,
-): leaflet.CircleMarker {
-  const marker = leaflet.circleMarker(coin.position, {
-    color: withinReach ? "gold" : "gray",
-    fillColor: withinReach ? "yellow" : "white",
-    fillOpacity: withinReach ? 0.8 : 0.4,
-    opacity: withinReach ? 0.8 : 0.4,
-    radius: 5,
-    className: "coin-spawn coin-marker",
-    bubblingMouseEvents: false,
-  });
-  marker.bindTooltip(`${coin.value}`, {
-    permanent: true,
-    direction: "top",
-    className: "coin-tooltip",
-  });
-  return marker;
-}
-
-export function addCoinEventListeners(
-  marker: leaflet.CircleMarker,
-  coin: Coin,
-  eventBus: EventTarget,
-): void {
-  marker.addEventListener(
-    "mouseover",
-    () =>
-      eventBus.dispatchEvent(
-        new CustomEvent("coin-hovered", { detail: { coin } }),
-      ),
-  );
-  marker.addEventListener(
-    "mouseout",
-    () =>
-      eventBus.dispatchEvent(
-        new CustomEvent("coin-unhovered", { detail: { coin } }),
-      ),
-  );
-  marker.addEventListener("mousedown", () => {
-    eventBus.dispatchEvent(
-      new CustomEvent("coin-clicked", { detail: { coin } }),
-    );
-  });
-}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { DEFAULT_FILTER_OPTIONS, GpsFix, PositionFilter } from "./gpsFilter.ts";
+import { distanceMeters } from "./grid.ts";
+
+// About 1.1 m of latitude
+const METER = 0.00001;
+
+function fix(
+  north: number,
+  seconds: number,
+  accuracy: number = 5,
+): GpsFix {
+  return { lat: north * METER, lng: 0, accuracy, timestamp: seconds * 1000 };
+}
+
+Deno.test("the first accurate fix is taken as is", () => {
+  const filter = new PositionFilter();
+  assert.deepEqual(filter.push(fix(3, 0)), {
+    accepted: true,
+    position: { lat: 3 * METER, lng: 0 },
+  });
+});
+
+Deno.test("fixes worse than maxAccuracy are rejected", () => {
+  const filter = new PositionFilter();
+  const accuracy = DEFAULT_FILTER_OPTIONS.maxAccuracy + 1;
+  assert.deepEqual(filter.push(fix(0, 0, accuracy)), {
+    accepted: false,
+    reason: "inaccurate",
+  });
+  filter.push(fix(0, 1, accuracy));
+  assert.equal(filter.inaccurateStreak, 2);
+  filter.push(fix(0, 2));
+  assert.equal(filter.inaccurateStreak, 0);
+});
+
+Deno.test("jitter is smoothed towards the estimate", () => {
+  const filter = new PositionFilter();
+  filter.push(fix(0, 0));
+  const result = filter.push(fix(8, 1));
+  assert.ok(result.accepted);
+  const moved = distanceMeters({ lat: 0, lng: 0 }, result.position);
+  const raw = distanceMeters({ lat: 0, lng: 0 }, { lat: 8 * METER, lng: 0 });
+  assert.ok(moved > 0 && moved < raw, `moved ${moved} of ${raw}`);
+});
+
+Deno.test("implausible jumps are rejected until they persist", () => {
+  const filter = new PositionFilter();
+  filter.push(fix(0, 0));
+  const teleport = 1000; // ~1.1 km in one second
+  for (let i = 1; i <= DEFAULT_FILTER_OPTIONS.maxJumpRejections; i++) {
+    assert.deepEqual(filter.push(fix(teleport, i)), {
+      accepted: false,
+      reason: "too-fast",
+    });
+  }
+  const accepted = filter.push(fix(teleport, 10));
+  assert.deepEqual(accepted, {
+    accepted: true,
+    position: { lat: teleport * METER, lng: 0 },
+  });
+});
+
+Deno.test("walking pace passes the speed cap", () => {
+  const filter = new PositionFilter();
+  filter.push(fix(0, 0));
+  for (let second = 1; second <= 10; second++) {
+    assert.ok(filter.push(fix(second * 1.5, second)).accepted);
+  }
+});
+
+Deno.test("time going backwards restarts the filter", () => {
+  const filter = new PositionFilter();
+  filter.push(fix(0, 100));
+  assert.deepEqual(filter.push(fix(1000, 0)), {
+    accepted: true,
+    position: { lat: 1000 * METER, lng: 0 },
+  });
+});
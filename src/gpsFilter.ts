@@ -0,0 +1,115 @@
+import { distanceMeters, GeoPoint } from "./grid.ts";
+
+export interface GpsFix extends GeoPoint {
+  accuracy: number; // meters, as in GeolocationCoordinates.accuracy
+  timestamp: number;
+}
+
+export type FilterResult =
+  | { accepted: true; position: GeoPoint }
+  | { accepted: false; reason: "inaccurate" | "too-fast" };
+
+export interface PositionFilterOptions {
+  // Fixes less accurate than this are dropped
+  maxAccuracy: number;
+  // Fastest believable movement in m/s; faster jumps are treated as noise
+  maxSpeed: number;
+  // How far (in m/s) the true position is expected to wander between fixes;
+  // lower values smooth harder but lag behind real movement
+  processNoise: number;
+  // After this many fast jumps in a row, the player really has moved
+  maxJumpRejections: number;
+}
+
+export const DEFAULT_FILTER_OPTIONS: PositionFilterOptions = {
+  maxAccuracy: 50,
+  maxSpeed: 12,
+  processNoise: 3,
+  maxJumpRejections: 5,
+};
+
+interface Estimate extends GeoPoint {
+  variance: number; // m²
+  timestamp: number;
+}
+
+// Rejects inaccurate fixes and implausible jumps, then smooths what is left
+// with a simple Kalman filter that weighs each fix by its reported accuracy.
+export class PositionFilter {
+  private estimate: Estimate | null = null;
+  private jumpRejections = 0;
+  private inaccurateRejections = 0;
+
+  constructor(
+    private options: PositionFilterOptions = DEFAULT_FILTER_OPTIONS,
+  ) {}
+
+  get maxAccuracy(): number {
+    return this.options.maxAccuracy;
+  }
+
+  // Fixes rejected as inaccurate since the last one that was accurate enough
+  get inaccurateStreak(): number {
+    return this.inaccurateRejections;
+  }
+
+  reset(): void {
+    this.estimate = null;
+    this.jumpRejections = 0;
+    this.inaccurateRejections = 0;
+  }
+
+  push(fix: GpsFix): FilterResult {
+    if (fix.accuracy > this.options.maxAccuracy) {
+      this.inaccurateRejections++;
+      return { accepted: false, reason: "inaccurate" };
+    }
+    this.inaccurateRejections = 0;
+    const estimate = this.estimate;
+    // Time going backwards means a new session (e.g. a looping replay)
+    if (!estimate || fix.timestamp < estimate.timestamp) {
+      return this.restart(fix);
+    }
+
+    const elapsed = (fix.timestamp - estimate.timestamp) / 1000;
+    const moved = Math.max(
+      0,
+      distanceMeters(estimate, fix) - fix.accuracy -
+        Math.sqrt(estimate.variance),
+    );
+    if (moved > this.options.maxSpeed * elapsed) {
+      this.jumpRejections++;
+      if (this.jumpRejections <= this.options.maxJumpRejections) {
+        return { accepted: false, reason: "too-fast" };
+      }
+      return this.restart(fix);
+    }
+    this.jumpRejections = 0;
+
+    const measurementVariance = Math.max(fix.accuracy, 1) ** 2;
+    const variance = estimate.variance +
+      elapsed * this.options.processNoise ** 2;
+    const gain = variance / (variance + measurementVariance);
+    this.estimate = {
+      lat: estimate.lat + gain * (fix.lat - estimate.lat),
+      lng: estimate.lng + gain * (fix.lng - estimate.lng),
+      variance: (1 - gain) * variance,
+      timestamp: fix.timestamp,
+    };
+    return {
+      accepted: true,
+      position: { lat: this.estimate.lat, lng: this.estimate.lng },
+    };
+  }
+
+  private restart(fix: GpsFix): FilterResult {
+    this.jumpRejections = 0;
+    this.estimate = {
+      lat: fix.lat,
+      lng: fix.lng,
+      variance: Math.max(fix.accuracy, 1) ** 2,
+      timestamp: fix.timestamp,
+    };
+    return { accepted: true, position: { lat: fix.lat, lng: fix.lng } };
+  }
+}
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import luck from "./_luck.ts";
+import {
+  CellInstance,
+  distanceMeters,
+  GRID_PROJECTIONS,
+  mapPixel,
+  METERS_PER_DEGREE,
+  planeCellSize,
+  SharedCellData,
+} from "./grid.ts";
+import { hexNeighbor, hexRange } from "./hex.ts";
+
+const origin = { lat: 0, lng: 0 };
+
+// Deterministic stand-in for random inputs, so failures can be replayed
+function sample(seed: string, min: number, max: number): number {
+  return min + luck(seed) * (max - min);
+}
+
+const PROPERTY_RUNS = 300;
+
+Deno.test("the grid is anchored at Null Island", () => {
+  for (const projection of GRID_PROJECTIONS) {
+    const grid = new SharedCellData(origin, 5.5, projection);
+    assert.deepEqual(grid.getCenter(0, 0), { lat: 0, lng: 0 });
+    assert.deepEqual(grid.latLngToHex(0, 0), { q: 0, r: 0 });
+  }
+});
+
+Deno.test("north and south neighbors are straight up and down", () => {
+  const grid = new SharedCellData(origin);
+  const north = hexNeighbor({ q: 0, r: 0 }, "north");
+  const south = hexNeighbor({ q: 0, r: 0 }, "south");
+  assert.equal(grid.getCenter(north.q, north.r).lng, 0);
+  assert.equal(grid.getCenter(south.q, south.r).lng, 0);
+  assert.ok(grid.getCenter(north.q, north.r).lat > 0);
+});
+
+Deno.test("plate-carree grids keep the original degree layout", () => {
+  const degrees = 0.00005;
+  const grid = new SharedCellData(
+    origin,
+    degrees * METERS_PER_DEGREE,
+    "plate-carree",
+  );
+  for (const [q, r] of [[1, 0], [0, 1], [-120, 431_000], [7, -3]]) {
+    const center = grid.getCenter(q, r);
+    const lat = degrees * (Math.sqrt(3) / 2 * q + Math.sqrt(3) * r);
+    assert.ok(Math.abs(center.lng - degrees * 1.5 * q) < 1e-12);
+    assert.ok(Math.abs(center.lat - lat) < 1e-9);
+  }
+});
+
+Deno.test("latLngToHex exactly inverts getCenter", () => {
+  for (const projection of GRID_PROJECTIONS) {
+    const grid = new SharedCellData(origin, 5.5, projection);
+    for (let i = 0; i < PROPERTY_RUNS; i++) {
+      // Anywhere between the Mercator cut-offs
+      const lat = sample(`lat ${i}`, -85, 85);
+      const lng = sample(`lng ${i}`, -180, 180);
+      const { q, r } = grid.latLngToHex(lat, lng);
+      const center = grid.getCenter(q, r);
+      assert.deepEqual(grid.latLngToHex(center.lat, center.lng), { q, r });
+    }
+  }
+});
+
+Deno.test("latLngToHex keeps points inside a hex in that hex", () => {
+  for (const projection of GRID_PROJECTIONS) {
+    const grid = new SharedCellData(origin, 5.5, projection);
+    for (let i = 0; i < PROPERTY_RUNS; i++) {
+      const { q, r } = grid.latLngToHex(
+        sample(`lat ${i}`, -80, 80),
+        sample(`lng ${i}`, -180, 180),
+      );
+      // A point in the triangle between the center and two adjacent corners,
+      // kept clear of the edge
+      const center = grid.getCenter(q, r);
+      const corners = grid.getCorners(q, r);
+      const side = Math.floor(sample(`side ${i}`, 0, 6));
+      const a = corners[side];
+      const b = corners[(side + 1) % 6];
+      const t = sample(`t ${i}`, 0, 0.95);
+      const u = sample(`u ${i}`, 0, 1);
+      const point = {
+        lat: center.lat + t * ((a.lat - center.lat) * (1 - u) +
+              (b.lat - center.lat) * u),
+        lng: center.lng + t * ((a.lng - center.lng) * (1 - u) +
+              (b.lng - center.lng) * u),
+      };
+      assert.deepEqual(grid.latLngToHex(point.lat, point.lng), { q, r });
+    }
+  }
+});
+
+Deno.test("Mercator hexes are regular on the ground at any latitude", () => {
+  for (const lat of [0, 30, 52.5, 70]) {
+    // Sized for the latitude, as new worlds are
+    const grid = new SharedCellData(
+      origin,
+      planeCellSize(5.5, lat, "mercator"),
+    );
+    const { q, r } = grid.latLngToHex(lat, 13.4);
+    const center = grid.getCenter(q, r);
+    const corners = grid.getCorners(q, r);
+    const radii = corners.map((corner) => distanceMeters(center, corner));
+    const sides = corners.map((corner, i) =>
+      distanceMeters(corner, corners[(i + 1) % 6])
+    );
+    // A regular hexagon's sides are as long as its radius
+    for (const length of [...radii, ...sides]) {
+      assert.ok(Math.abs(length / radii[0] - 1) < 0.001);
+    }
+    assert.ok(Math.abs(grid.radiusMeters(q, r) / 5.5 - 1) < 0.01);
+  }
+});
+
+Deno.test("within one Mercator world, cells shrink away from the equator", () => {
+  // The grid is shared by the whole world, so it can only be sized for one
+  // latitude; 5.5 m at the equator is about 1.9 m at 70°
+  const grid = new SharedCellData(origin, 5.5);
+  for (const lat of [0, 30, 70]) {
+    const { q, r } = grid.latLngToHex(lat, 13.4);
+    const expected = 5.5 * Math.cos(grid.getCenter(q, r).lat * Math.PI / 180);
+    assert.ok(Math.abs(grid.radiusMeters(q, r) / expected - 1) < 0.01);
+  }
+});
+
+Deno.test("CellInstance derives its id and center from the grid", () => {
+  const grid = new SharedCellData(origin);
+  const cell = new CellInstance(-4, 7, grid);
+  assert.equal(cell.id, "-4,7");
+  assert.deepEqual(cell.center, grid.getCenter(-4, 7));
+  assert.equal(cell.corners.length, 6);
+});
+
+Deno.test("distanceMeters measures great-circle distance", () => {
+  assert.equal(distanceMeters(origin, origin), 0);
+  // One degree of latitude is about 111.2 km on a 6371 km sphere
+  const degree = distanceMeters(origin, { lat: 1, lng: 0 });
+  assert.ok(Math.abs(degree - 111195) < 1, `got ${degree}`);
+});
+
+Deno.test("mapPixel places points like Leaflet's Web Mercator map", () => {
+  assert.deepEqual(mapPixel(origin, 0), { x: 128, y: 128 });
+  const corner = mapPixel({ lat: 85.0511287798, lng: 180 }, 1);
+  assert.ok(Math.abs(corner.x - 512) < 1e-6);
+  assert.ok(Math.abs(corner.y) < 1e-6);
+  // Each zoom level doubles the map
+  const point = { lat: 36.99, lng: -122.05 };
+  const near = mapPixel(point, 18);
+  const far = mapPixel(point, 19);
+  assert.ok(Math.abs(far.x - 2 * near.x) < 1e-6);
+  assert.ok(Math.abs(far.y - 2 * near.y) < 1e-6);
+});
+
+Deno.test("cellsWithin finds the same cells as measuring every one", () => {
+  for (const projection of GRID_PROJECTIONS) {
+    const grid = new SharedCellData(origin, 5.5, projection);
+    for (let i = 0; i < 20; i++) {
+      const point = {
+        lat: sample(`within lat ${i}`, -60, 60),
+        lng: sample(`within lng ${i}`, -180, 180),
+      };
+      const meters = sample(`within meters ${i}`, 5, 80);
+      const center = grid.latLngToHex(point.lat, point.lng);
+      const expected = hexRange(center, 30)
+        .filter(({ q, r }) =>
+          distanceMeters(point, grid.getCenter(q, r)) <= meters
+        )
+        .map(({ q, r }) => `${q},${r}`);
+      const found = grid.cellsWithin(point, meters).map(({ q, r }) =>
+        `${q},${r}`
+      );
+      assert.deepEqual(new Set(found), new Set(expected));
+    }
+  }
+});
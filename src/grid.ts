@@ -0,0 +1,199 @@
+// Plain lat/lng geometry for the hex grid. Nothing here depends on Leaflet, so
+// the game rules can run (and be tested) without a map; Leaflet accepts these
+// points anywhere it takes a LatLng.
+
+import { HexCoord, hexRange, hexRound } from "./hex.ts";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS = 6371000; // meters, same as Leaflet's CRS.Earth
+
+// Great-circle distance in meters, matching leaflet.LatLng.distanceTo
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const rad = Math.PI / 180;
+  const lat1 = a.lat * rad;
+  const lat2 = b.lat * rad;
+  const sinDLat = Math.sin((b.lat - a.lat) * rad / 2);
+  const sinDLng = Math.sin((b.lng - a.lng) * rad / 2);
+  const h = sinDLat * sinDLat +
+    Math.cos(lat1) * Math.cos(lat2) * sinDLng * sinDLng;
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// How lat/lng is flattened onto the plane the hexes are laid out on
+export type GridProjection =
+  // Web Mercator, which is also how Leaflet draws the map. Hexes keep their
+  // shape at every latitude; their size on the ground shrinks with
+  // cos(latitude), like everything else on a Mercator map. New worlds size
+  // them for the latitude they start at (see planeCellSize), so cells are
+  // only that size nearby and shrink or grow a long way north or south.
+  | "mercator"
+  // Degrees used directly as plane units: the original grid, kept for worlds
+  // started with it. Hexes get squashed east-west away from the equator.
+  | "plate-carree";
+
+export const GRID_PROJECTIONS: GridProjection[] = ["mercator", "plate-carree"];
+
+export interface PlanePoint {
+  x: number;
+  y: number;
+}
+
+// Web Mercator's sphere, so plane units are meters along the equator
+const PROJECTION_RADIUS = 6378137;
+const RADIANS = Math.PI / 180;
+// Where Web Mercator cuts off, making the map square
+const MAX_MERCATOR_LAT = 85.0511287798;
+
+// Plane meters per degree along the equator, for sizes given in degrees
+export const METERS_PER_DEGREE = PROJECTION_RADIUS * RADIANS;
+
+function project(projection: GridProjection, point: GeoPoint): PlanePoint {
+  const x = point.lng * METERS_PER_DEGREE;
+  if (projection === "plate-carree") {
+    return { x, y: point.lat * METERS_PER_DEGREE };
+  }
+  const lat = Math.max(
+    -MAX_MERCATOR_LAT,
+    Math.min(MAX_MERCATOR_LAT, point.lat),
+  );
+  return {
+    x,
+    y: PROJECTION_RADIUS * Math.log(Math.tan(Math.PI / 4 + lat * RADIANS / 2)),
+  };
+}
+
+function unproject(projection: GridProjection, point: PlanePoint): GeoPoint {
+  const lng = point.x / METERS_PER_DEGREE;
+  if (projection === "plate-carree") {
+    return { lat: point.y / METERS_PER_DEGREE, lng };
+  }
+  const lat = 2 * Math.atan(Math.exp(point.y / PROJECTION_RADIUS)) -
+    Math.PI / 2;
+  return { lat: lat / RADIANS, lng };
+}
+
+// Where a point lands on a Web Mercator map 256 * 2^zoom pixels wide, the
+// same as Leaflet's map.project
+export function mapPixel(point: GeoPoint, zoom: number): PlanePoint {
+  const { x, y } = project("mercator", point);
+  const halfWorld = Math.PI * PROJECTION_RADIUS;
+  const halfSize = 128 * 2 ** zoom;
+  return {
+    x: halfSize * (1 + x / halfWorld),
+    y: halfSize * (1 - y / halfWorld),
+  };
+}
+
+// The plane size that makes hexes `groundMeters` in radius around `lat`
+export function planeCellSize(
+  groundMeters: number,
+  lat: number,
+  projection: GridProjection,
+): number {
+  if (projection === "plate-carree") return groundMeters;
+  const clamped = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat));
+  return groundMeters / Math.cos(clamped * RADIANS);
+}
+
+export class SharedCellData {
+  constructor(
+    public origin: GeoPoint,
+    // Hex radius in plane meters; on the ground at the equator for Mercator
+    public size: number = 5.5,
+    public projection: GridProjection = "mercator",
+  ) {}
+
+  // Flat-top hex layout in the plane:
+  // x = size * (3/2 * q)
+  // y = size * (√3/2 * q + √3 * r)
+  private planeCenter(q: number, r: number): PlanePoint {
+    const origin = project(this.projection, this.origin);
+    const sqrt3 = Math.sqrt(3);
+    return {
+      x: origin.x + this.size * (3 / 2 * q),
+      y: origin.y + this.size * ((sqrt3 / 2) * q + sqrt3 * r),
+    };
+  }
+
+  getCenter(q: number, r: number): GeoPoint {
+    return unproject(this.projection, this.planeCenter(q, r));
+  }
+
+  getCorners(q: number, r: number): GeoPoint[] {
+    const center = this.planeCenter(q, r);
+    const corners: GeoPoint[] = [];
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i;
+      corners.push(unproject(this.projection, {
+        x: center.x + this.size * Math.cos(angle),
+        y: center.y + this.size * Math.sin(angle),
+      }));
+    }
+    return corners;
+  }
+
+  // Center to corner on the ground, which varies with latitude
+  radiusMeters(q: number, r: number): number {
+    return distanceMeters(this.getCenter(q, r), this.getCorners(q, r)[0]);
+  }
+
+  // Cells whose center is within `meters` of a point. Only the hexes a few
+  // steps around the point are measured, not every cell in view.
+  cellsWithin(point: GeoPoint, meters: number): HexCoord[] {
+    const center = this.latLngToHex(point.lat, point.lng);
+    const radius = this.radiusMeters(center.q, center.r);
+    // Cells d steps apart have centers at least 1.5 * d radii apart, and the
+    // point is up to a radius off its own cell's center
+    const steps = Math.ceil((meters + radius) / (1.5 * radius));
+    return hexRange(center, steps).filter(({ q, r }) =>
+      distanceMeters(point, this.getCenter(q, r)) <= meters
+    );
+  }
+
+  latLngToHex(lat: number, lng: number): HexCoord {
+    const point = project(this.projection, { lat, lng });
+    const origin = project(this.projection, this.origin);
+    const x = point.x - origin.x;
+    const y = point.y - origin.y;
+    const sqrt3 = Math.sqrt(3);
+    const q = (2 / 3) * x / this.size;
+    const r = (-1 / 3 * x + (sqrt3 / 3) * y) / this.size;
+    return hexRound(q, r);
+  }
+}
+
+export class CellInstance {
+  public coord: HexCoord;
+
+  constructor(
+    q: number,
+    r: number,
+    private shared: SharedCellData,
+  ) {
+    this.coord = { q, r };
+  }
+
+  get q(): number {
+    return this.coord.q;
+  }
+
+  get r(): number {
+    return this.coord.r;
+  }
+
+  get id(): string {
+    return `${this.q},${this.r}`;
+  }
+
+  get center(): GeoPoint {
+    return this.shared.getCenter(this.q, this.r);
+  }
+
+  get corners(): GeoPoint[] {
+    return this.shared.getCorners(this.q, this.r);
+  }
+}
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import luck from "./_luck.ts";
+import {
+  HEX_DIRECTIONS,
+  HexCoord,
+  HexDirection,
+  hexDistance,
+  hexLine,
+  hexNeighbor,
+  hexNeighbors,
+  hexRange,
+  hexRangeIntersection,
+  hexRing,
+  hexRound,
+  hexSpiral,
+  packHex,
+  toCube,
+  unpackHex,
+} from "./hex.ts";
+
+const key = ({ q, r }: HexCoord) => `${q},${r}`;
+
+Deno.test("neighbouring cells are one step apart", () => {
+  const origin = { q: 0, r: 0 };
+  const neighbors = Object.keys(HEX_DIRECTIONS).map((direction) =>
+    hexNeighbor(origin, direction as HexDirection)
+  );
+  assert.deepEqual(neighbors, hexNeighbors(origin));
+  assert.equal(new Set(neighbors.map(key)).size, 6);
+  for (const neighbor of neighbors) {
+    assert.equal(hexDistance(origin, neighbor), 1);
+  }
+  assert.equal(hexDistance({ q: -2, r: 3 }, { q: 2, r: -1 }), 4);
+});
+
+Deno.test("cube coordinates always sum to zero", () => {
+  const { q, r, s } = toCube({ q: 3, r: -7 });
+  assert.equal(q + r + s, 0);
+});
+
+Deno.test("packed hexes unpack to the same coordinates", () => {
+  const coords = [
+    { q: 0, r: 0 },
+    { q: -1, r: 1 },
+    { q: 1, r: -1 },
+    { q: -4_800_000, r: 2_500_000 },
+    { q: 4_800_000, r: -7_000_000 },
+  ];
+  for (const coord of coords) {
+    assert.deepEqual(unpackHex(packHex(coord)), coord);
+  }
+  assert.equal(new Set(coords.map(packHex)).size, coords.length);
+});
+
+Deno.test("hexRound picks the right hex near edges", () => {
+  // Closer to { q: 0, r: 1 } and { q: 1, r: 0 } than to the origin, where
+  // rounding q and r on their own would put it
+  const rounded = hexRound(0.45, 0.45);
+  assert.notDeepEqual(rounded, { q: 0, r: 0 });
+  assert.equal(hexDistance(rounded, { q: 0, r: 0 }), 1);
+  assert.deepEqual(hexRound(-0.3, -0.1), { q: 0, r: 0 });
+  assert.deepEqual(hexRound(-0.0001, 0.0001), { q: 0, r: 0 });
+});
+
+Deno.test("hexRound returns the nearest hex center", () => {
+  for (let i = 0; i < 300; i++) {
+    const q = (luck(`hex round q ${i}`) - 0.5) * 20;
+    const r = (luck(`hex round r ${i}`) - 0.5) * 20;
+    const rounded = hexRound(q, r);
+    // Distances between fractional points, in hex steps
+    const steps = (a: HexCoord) => {
+      const { q: dq, r: dr, s: ds } = toCube({ q: a.q - q, r: a.r - r });
+      return (Math.abs(dq) + Math.abs(dr) + Math.abs(ds)) / 2;
+    };
+    for (const neighbor of hexNeighbors(rounded)) {
+      assert.ok(
+        steps(rounded) <= steps(neighbor) + 1e-9,
+        `${q},${r} rounded to ${key(rounded)} but ${key(neighbor)} is nearer`,
+      );
+    }
+  }
+});
+
+Deno.test("rings hold six hexes per step, all at that distance", () => {
+  const center = { q: 2, r: -5 };
+  assert.deepEqual(hexRing(center, 0), [center]);
+  for (const radius of [1, 2, 5]) {
+    const ring = hexRing(center, radius);
+    assert.equal(ring.length, 6 * radius);
+    assert.equal(new Set(ring.map(key)).size, ring.length);
+    for (const [i, hex] of ring.entries()) {
+      assert.equal(hexDistance(center, hex), radius);
+      // Each hex follows on from the one before it
+      assert.equal(hexDistance(hex, ring[(i + 1) % ring.length]), 1);
+    }
+  }
+});
+
+Deno.test("spirals and ranges cover the same hexes", () => {
+  const center = { q: -1, r: 4 };
+  for (const radius of [0, 1, 3, 7]) {
+    const spiral = hexSpiral(center, radius);
+    const range = hexRange(center, radius);
+    assert.equal(spiral.length, 3 * radius * (radius + 1) + 1);
+    assert.deepEqual(new Set(spiral.map(key)), new Set(range.map(key)));
+    assert.deepEqual(spiral[0], center);
+    for (let i = 1; i < spiral.length; i++) {
+      assert.ok(
+        hexDistance(center, spiral[i - 1]) <= hexDistance(center, spiral[i]),
+      );
+    }
+  }
+});
+
+Deno.test("range intersections match filtering one range by the other", () => {
+  const cases: [HexCoord, number, HexCoord, number][] = [
+    [{ q: 0, r: 0 }, 4, { q: 3, r: -1 }, 2],
+    [{ q: -2, r: 5 }, 3, { q: 1, r: 3 }, 6],
+    [{ q: 0, r: 0 }, 2, { q: 0, r: 0 }, 5],
+    [{ q: 0, r: 0 }, 1, { q: 5, r: 0 }, 2],
+  ];
+  for (const [a, radiusA, b, radiusB] of cases) {
+    const expected = hexRange(a, radiusA)
+      .filter((hex) => hexDistance(b, hex) <= radiusB)
+      .map(key);
+    assert.deepEqual(
+      new Set(hexRangeIntersection(a, radiusA, b, radiusB).map(key)),
+      new Set(expected),
+    );
+  }
+  assert.deepEqual(
+    hexRangeIntersection({ q: 0, r: 0 }, 1, { q: 5, r: 0 }, 2),
+    [],
+  );
+});
+
+Deno.test("hexLine is a shortest path of neighboring cells", () => {
+  const from = { q: -3, r: 5 };
+  const to = { q: 4, r: -2 };
+  const line = hexLine(from, to);
+  assert.equal(line.length, hexDistance(from, to) + 1);
+  assert.deepEqual(line[0], from);
+  assert.deepEqual(line.at(-1), to);
+  for (let i = 1; i < line.length; i++) {
+    assert.equal(hexDistance(line[i - 1], line[i]), 1);
+  }
+});
+
+Deno.test("hexLine to the same cell is just that cell", () => {
+  assert.deepEqual(hexLine({ q: 2, r: 1 }, { q: 2, r: 1 }), [{ q: 2, r: 1 }]);
+});
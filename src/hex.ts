@@ -0,0 +1,180 @@
+// Hex grid math on axial coordinates, with no geography: see grid.ts for how
+// hexes map onto the world. Cube coordinates add s = -q - r, which makes
+// rounding and distances symmetric in all three axes.
+
+export type HexCoord = {
+  q: number;
+  r: number;
+};
+export function HexCoord(q: number, r: number): HexCoord {
+  return { q, r };
+}
+
+export type CubeCoord = {
+  q: number;
+  r: number;
+  s: number;
+};
+
+export function toCube({ q, r }: HexCoord): CubeCoord {
+  return { q, r, s: -q - r };
+}
+
+export function fromCube({ q, r }: CubeCoord): HexCoord {
+  return { q, r };
+}
+
+// Axial coordinates packed into one number, for maps and sets keyed by hex.
+// Works for |q| and |r| up to 2^25, far beyond the ends of the grid.
+const PACK_OFFSET = 2 ** 25;
+const PACK_SPAN = 2 ** 26;
+
+export function packHex({ q, r }: HexCoord): number {
+  return (q + PACK_OFFSET) * PACK_SPAN + r + PACK_OFFSET;
+}
+
+export function unpackHex(packed: number): HexCoord {
+  return {
+    q: Math.floor(packed / PACK_SPAN) - PACK_OFFSET,
+    r: packed % PACK_SPAN - PACK_OFFSET,
+  };
+}
+
+export function hexAdd(a: HexCoord, b: HexCoord): HexCoord {
+  return { q: a.q + b.q, r: a.r + b.r };
+}
+
+// Flat-top hexes have no east or west neighbor
+export type HexDirection =
+  | "north"
+  | "northeast"
+  | "southeast"
+  | "south"
+  | "southwest"
+  | "northwest";
+
+// In clockwise order
+export const HEX_DIRECTIONS: Record<HexDirection, HexCoord> = {
+  north: { q: 0, r: 1 },
+  northeast: { q: 1, r: 0 },
+  southeast: { q: 1, r: -1 },
+  south: { q: 0, r: -1 },
+  southwest: { q: -1, r: 0 },
+  northwest: { q: -1, r: 1 },
+};
+
+const DIRECTION_STEPS = Object.values(HEX_DIRECTIONS);
+
+export function hexNeighbor(
+  coord: HexCoord,
+  direction: HexDirection,
+): HexCoord {
+  return hexAdd(coord, HEX_DIRECTIONS[direction]);
+}
+
+export function hexNeighbors(coord: HexCoord): HexCoord[] {
+  return DIRECTION_STEPS.map((step) => hexAdd(coord, step));
+}
+
+export function hexDistance(a: HexCoord, b: HexCoord): number {
+  const d = toCube({ q: a.q - b.q, r: a.r - b.r });
+  return Math.max(Math.abs(d.q), Math.abs(d.r), Math.abs(d.s));
+}
+
+// Rounds fractional axial coordinates to the hex that contains them. Each
+// cube axis is rounded, then the one that moved most is recomputed from the
+// other two so q + r + s stays 0; rounding q and r on their own picks a
+// neighbor near the edges.
+export function hexRound(q: number, r: number): HexCoord {
+  const s = -q - r;
+  let roundQ = Math.round(q);
+  let roundR = Math.round(r);
+  const roundS = Math.round(s);
+  const dq = Math.abs(roundQ - q);
+  const dr = Math.abs(roundR - r);
+  const ds = Math.abs(roundS - s);
+  if (dq > dr && dq > ds) {
+    roundQ = -roundR - roundS;
+  } else if (dr > ds) {
+    roundR = -roundQ - roundS;
+  }
+  // + 0 turns -0 into 0, so ids built from the result are stable
+  return { q: roundQ + 0, r: roundR + 0 };
+}
+
+// The hexes exactly `radius` steps away, clockwise from the south-west
+export function hexRing(center: HexCoord, radius: number): HexCoord[] {
+  if (radius === 0) return [center];
+  const ring: HexCoord[] = [];
+  let hex = hexAdd(center, {
+    q: HEX_DIRECTIONS.southwest.q * radius,
+    r: HEX_DIRECTIONS.southwest.r * radius,
+  });
+  for (const step of DIRECTION_STEPS) {
+    for (let i = 0; i < radius; i++) {
+      ring.push(hex);
+      hex = hexAdd(hex, step);
+    }
+  }
+  return ring;
+}
+
+// Every hex within `radius`, nearest first: the center, then ring by ring
+export function hexSpiral(center: HexCoord, radius: number): HexCoord[] {
+  const spiral: HexCoord[] = [];
+  for (let ring = 0; ring <= radius; ring++) {
+    spiral.push(...hexRing(center, ring));
+  }
+  return spiral;
+}
+
+// Every hex within `radius`, by column. Cheaper than hexSpiral when the
+// order does not matter.
+export function hexRange(center: HexCoord, radius: number): HexCoord[] {
+  return hexRangeIntersection(center, radius, center, radius);
+}
+
+// The hexes within `radiusA` of `a` and within `radiusB` of `b`; empty when
+// the ranges do not overlap
+export function hexRangeIntersection(
+  a: HexCoord,
+  radiusA: number,
+  b: HexCoord,
+  radiusB: number,
+): HexCoord[] {
+  const cubeA = toCube(a);
+  const cubeB = toCube(b);
+  const qMin = Math.max(cubeA.q - radiusA, cubeB.q - radiusB);
+  const qMax = Math.min(cubeA.q + radiusA, cubeB.q + radiusB);
+  const rMin = Math.max(cubeA.r - radiusA, cubeB.r - radiusB);
+  const rMax = Math.min(cubeA.r + radiusA, cubeB.r + radiusB);
+  const sMin = Math.max(cubeA.s - radiusA, cubeB.s - radiusB);
+  const sMax = Math.min(cubeA.s + radiusA, cubeB.s + radiusB);
+  const hexes: HexCoord[] = [];
+  for (let q = qMin; q <= qMax; q++) {
+    for (
+      let r = Math.max(rMin, -q - sMax);
+      r <= Math.min(rMax, -q - sMin);
+      r++
+    ) {
+      hexes.push({ q, r });
+    }
+  }
+  return hexes;
+}
+
+// A shortest path from one hex to another, both ends included. With no
+// obstacles on the grid this is the straight line between their centers.
+export function hexLine(from: HexCoord, to: HexCoord): HexCoord[] {
+  const steps = hexDistance(from, to);
+  const line: HexCoord[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    // Nudged off the corners so ties always round the same way
+    line.push(hexRound(
+      from.q + (to.q - from.q) * t + 1e-6,
+      from.r + (to.r - from.r) * t + 1e-6,
+    ));
+  }
+  return line;
+}
@@ -0,0 +1,127 @@
+import type { CellInstance } from "./grid.ts";
+import type { HexCoord } from "./hex.ts";
+
+export interface HistoryEventBase {
+  timestamp: number;
+  cell: HexCoord;
+  lat: number;
+  lng: number;
+}
+
+export type CoinHistoryEvent =
+  | HistoryEventBase & { kind: "spawned" }
+  | HistoryEventBase & { kind: "picked-up" }
+  | HistoryEventBase & { kind: "placed" }
+  | HistoryEventBase & {
+    kind: "crafted";
+    value: number;
+    parents: string[];
+    // Missing on coins crafted before there were recipes
+    recipe?: string;
+  }
+  | HistoryEventBase & { kind: "swapped"; otherCoinId: string }
+  | HistoryEventBase & { kind: "legacy"; text: string };
+
+export type CoinHistoryKind = CoinHistoryEvent["kind"];
+
+export function eventAt(
+  cell: CellInstance,
+  timestamp: number = Date.now(),
+): HistoryEventBase {
+  const center = cell.center;
+  return {
+    timestamp,
+    cell: { q: cell.q, r: cell.r },
+    lat: center.lat,
+    lng: center.lng,
+  };
+}
+
+// Parent histories are merged by timestamp; the sort is stable, so events
+// that share a timestamp (e.g. migrated ones) keep their original order.
+export function mergeHistories(
+  ...histories: CoinHistoryEvent[][]
+): CoinHistoryEvent[] {
+  return histories.flat().sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function describeHistoryEvent(event: CoinHistoryEvent): string {
+  const cellId = `${event.cell.q},${event.cell.r}`;
+  switch (event.kind) {
+    case "spawned":
+      return `Spawned in cell ${cellId}`;
+    case "picked-up":
+      return `Picked up from cell ${cellId}`;
+    case "placed":
+      return `Placed in cell ${cellId}`;
+    case "crafted":
+      return `Crafted into a ${event.value} coin in cell ${cellId}`;
+    case "swapped":
+      return `Swapped with ${event.otherCoinId} in cell ${cellId}`;
+    case "legacy":
+      return event.text;
+  }
+}
+
+const LEGACY_PATTERNS: {
+  pattern: RegExp;
+  kind: "spawned" | "picked-up" | "placed";
+}[] = [
+  { pattern: /^Spawned in cell (-?\d+),(-?\d+)$/, kind: "spawned" },
+  { pattern: /^Picked up from cell (-?\d+),(-?\d+)$/, kind: "picked-up" },
+  { pattern: /^Placed in cell (-?\d+),(-?\d+)$/, kind: "placed" },
+];
+const LEGACY_CRAFTED_PATTERN = /^Crafted new coin with value (\d+)$/;
+
+export function isHistoryEvent(entry: unknown): entry is CoinHistoryEvent {
+  if (!entry || typeof entry !== "object") return false;
+  const e = entry as Record<string, unknown>;
+  return typeof e.kind === "string" &&
+    typeof e.timestamp === "number" &&
+    typeof e.lat === "number" &&
+    typeof e.lng === "number" &&
+    !!e.cell && typeof e.cell === "object";
+}
+
+// Old saves stored history as free-text strings with no time or position.
+// Known phrases are converted into typed events; the coin's own location is
+// used where the text does not say where it happened, and the timestamp is 0.
+export function migrateHistory(
+  history: unknown[],
+  fallback: { q: number; r: number; lat: number; lng: number },
+): CoinHistoryEvent[] {
+  const base: HistoryEventBase = {
+    timestamp: 0,
+    cell: { q: fallback.q, r: fallback.r },
+    lat: fallback.lat,
+    lng: fallback.lng,
+  };
+  const events: CoinHistoryEvent[] = [];
+  for (const entry of history) {
+    if (isHistoryEvent(entry)) {
+      events.push(entry);
+      continue;
+    }
+    if (typeof entry !== "string") continue;
+    const known = LEGACY_PATTERNS.find(({ pattern }) => pattern.test(entry));
+    const crafted = LEGACY_CRAFTED_PATTERN.exec(entry);
+    if (known) {
+      const [, q, r] = known.pattern.exec(entry)!;
+      events.push({
+        ...base,
+        kind: known.kind,
+        cell: { q: Number(q), r: Number(r) },
+      });
+    } else if (crafted) {
+      events.push({
+        ...base,
+        kind: "crafted",
+        value: Number(crafted[1]),
+        parents: [],
+      });
+    } else {
+      events.push({ ...base, kind: "legacy", text: entry });
+    }
+  }
+  return events;
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import {
+  DEFAULT_KEY_BINDINGS,
+  directionForKey,
+  directionFromVector,
+  keyLabel,
+  rebindKey,
+} from "./input.ts";
+
+Deno.test("QWEASD map onto the six hex neighbors", () => {
+  const keys = ["KeyQ", "KeyW", "KeyE", "KeyA", "KeyS", "KeyD"];
+  assert.deepEqual(
+    keys.map((code) => directionForKey(DEFAULT_KEY_BINDINGS, code)),
+    ["northwest", "north", "northeast", "southwest", "south", "southeast"],
+  );
+  assert.equal(directionForKey(DEFAULT_KEY_BINDINGS, "KeyZ"), null);
+});
+
+Deno.test("rebinding a taken key swaps it with the old owner", () => {
+  const bindings = rebindKey(DEFAULT_KEY_BINDINGS, "north", "KeyS");
+  assert.equal(bindings.north, "KeyS");
+  assert.equal(bindings.south, "KeyW");
+  assert.equal(DEFAULT_KEY_BINDINGS.north, "KeyW");
+
+  const fresh = rebindKey(DEFAULT_KEY_BINDINGS, "north", "ArrowUp");
+  assert.equal(fresh.north, "ArrowUp");
+  assert.equal(directionForKey(fresh, "KeyW"), null);
+});
+
+Deno.test("stick vectors pick the nearest neighbor", () => {
+  assert.equal(directionFromVector(0, 1), "north");
+  assert.equal(directionFromVector(0, -1), "south");
+  assert.equal(directionFromVector(0.8, 0.5), "northeast");
+  assert.equal(directionFromVector(0.8, -0.5), "southeast");
+  assert.equal(directionFromVector(-0.8, -0.5), "southwest");
+  // Straight sideways is ambiguous on a flat-top grid; ties go north
+  assert.equal(directionFromVector(1, 0), "northeast");
+  assert.equal(directionFromVector(-1, 0), "northwest");
+});
+
+Deno.test("small stick movements fall inside the deadzone", () => {
+  assert.equal(directionFromVector(0.2, 0.3), null);
+});
+
+Deno.test("keyLabel shortens key codes", () => {
+  assert.equal(keyLabel("KeyQ"), "Q");
+  assert.equal(keyLabel("Digit4"), "4");
+  assert.equal(keyLabel("ArrowLeft"), "←");
+  assert.equal(keyLabel("Space"), "Space");
+});
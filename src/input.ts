@@ -0,0 +1,210 @@
+import type { HexDirection } from "./hex.ts";
+
+// One KeyboardEvent.code per direction, so bindings follow key positions
+// rather than the letters of the active keyboard layout
+export type KeyBindings = Record<HexDirection, string>;
+
+// Q W E over A S D mirrors the six neighbors of a flat-top hex
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  northwest: "KeyQ",
+  north: "KeyW",
+  northeast: "KeyE",
+  southwest: "KeyA",
+  south: "KeyS",
+  southeast: "KeyD",
+};
+
+export function directionForKey(
+  bindings: KeyBindings,
+  code: string,
+): HexDirection | null {
+  const entry = Object.entries(bindings).find(([, bound]) => bound === code);
+  return entry ? entry[0] as HexDirection : null;
+}
+
+// A key can only move one way, so the direction that had it before takes
+// over the key being replaced
+export function rebindKey(
+  bindings: KeyBindings,
+  direction: HexDirection,
+  code: string,
+): KeyBindings {
+  const updated = { ...bindings };
+  const previousOwner = directionForKey(bindings, code);
+  if (previousOwner) updated[previousOwner] = bindings[direction];
+  updated[direction] = code;
+  return updated;
+}
+
+export function keyLabel(code: string): string {
+  const arrows: Record<string, string> = {
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    ArrowLeft: "←",
+    ArrowRight: "→",
+  };
+  return arrows[code] ??
+    code.replace(/^Key/, "").replace(/^Digit/, "").replace(/^Numpad/, "Num ");
+}
+
+// Screen angle of each neighbor in degrees, counterclockwise from east
+const DIRECTION_ANGLES: [HexDirection, number][] = [
+  ["northeast", 30],
+  ["north", 90],
+  ["northwest", 150],
+  ["southwest", 210],
+  ["south", 270],
+  ["southeast", 330],
+];
+
+export const STICK_DEADZONE = 0.5;
+
+// Maps a stick or d-pad vector (y pointing up) to the nearest neighbor.
+// Straight left or right is halfway between two neighbors; ties go north.
+export function directionFromVector(x: number, y: number): HexDirection | null {
+  if (Math.hypot(x, y) < STICK_DEADZONE) return null;
+  const angle = (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  let best: HexDirection | null = null;
+  let bestDistance = Infinity;
+  for (const [direction, directionAngle] of DIRECTION_ANGLES) {
+    const difference = Math.abs(angle - directionAngle);
+    const distance = Math.min(difference, 360 - difference);
+    if (distance < bestDistance - 1e-9) {
+      best = direction;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+const REPEAT_DELAY_MS = 300;
+const REPEAT_INTERVAL_MS = 150;
+
+// Steps once when a direction is pressed, then keeps stepping while held
+class DirectionRepeater {
+  private held: HexDirection | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private onStep: (direction: HexDirection) => void) {}
+
+  press(direction: HexDirection): void {
+    if (this.held === direction) return;
+    this.release();
+    this.held = direction;
+    this.onStep(direction);
+    this.timer = setTimeout(() => this.repeat(), REPEAT_DELAY_MS);
+  }
+
+  release(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.held = null;
+  }
+
+  private repeat(): void {
+    if (!this.held) return;
+    this.onStep(this.held);
+    this.timer = setTimeout(() => this.repeat(), REPEAT_INTERVAL_MS);
+  }
+}
+
+function isTextEntry(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement;
+}
+
+// Turns bound keys and gamepad input into "move-player" events. Positioning
+// only acts on them in "ui" mode.
+export class MovementInput {
+  private keyboard: DirectionRepeater;
+  private gamepad: DirectionRepeater;
+  // Bound keys currently down, most recent last
+  private heldKeys: string[] = [];
+  private pollHandle: number | null = null;
+
+  constructor(
+    eventBus: EventTarget,
+    private getBindings: () => KeyBindings,
+  ) {
+    const step = (direction: HexDirection) =>
+      eventBus.dispatchEvent(
+        new CustomEvent("move-player", { detail: { direction } }),
+      );
+    this.keyboard = new DirectionRepeater(step);
+    this.gamepad = new DirectionRepeater(step);
+
+    globalThis.addEventListener("keydown", (event) => this.onKeyDown(event));
+    globalThis.addEventListener("keyup", (event) => this.onKeyUp(event));
+    globalThis.addEventListener("blur", () => {
+      this.heldKeys = [];
+      this.keyboard.release();
+    });
+    globalThis.addEventListener("gamepadconnected", () => this.startPolling());
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isTextEntry(event.target)) return;
+    const direction = directionForKey(this.getBindings(), event.code);
+    if (!direction) return;
+    event.preventDefault();
+    // Held keys repeat on our own schedule, not the OS one
+    if (event.repeat) return;
+    this.heldKeys = [
+      ...this.heldKeys.filter((code) => code !== event.code),
+      event.code,
+    ];
+    this.keyboard.press(direction);
+  }
+
+  private onKeyUp(event: KeyboardEvent): void {
+    if (!this.heldKeys.includes(event.code)) return;
+    this.heldKeys = this.heldKeys.filter((code) => code !== event.code);
+    const latest = this.heldKeys.at(-1);
+    const direction = latest
+      ? directionForKey(this.getBindings(), latest)
+      : null;
+    if (direction) {
+      this.keyboard.press(direction);
+    } else {
+      this.keyboard.release();
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollHandle !== null) return;
+    const poll = () => {
+      const direction = this.readGamepads();
+      if (direction) {
+        this.gamepad.press(direction);
+      } else {
+        this.gamepad.release();
+      }
+      this.pollHandle = navigator.getGamepads().some((pad) => pad)
+        ? requestAnimationFrame(poll)
+        : null;
+    };
+    this.pollHandle = requestAnimationFrame(poll);
+  }
+
+  private readGamepads(): HexDirection | null {
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+      // Standard mapping: buttons 12-15 are d-pad up, down, left, right
+      const pressed = (index: number) => pad.buttons[index]?.pressed ? 1 : 0;
+      const fromDpad = directionFromVector(
+        pressed(15) - pressed(14),
+        pressed(12) - pressed(13),
+      );
+      if (fromDpad) return fromDpad;
+      // Stick axes point down for positive y
+      const fromStick = directionFromVector(
+        pad.axes[0] ?? 0,
+        -(pad.axes[1] ?? 0),
+      );
+      if (fromStick) return fromStick;
+    }
+    return null;
+  }
+}
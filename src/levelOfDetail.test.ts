@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import {
+  clusterCoins,
+  detailLevel,
+  GAMEPLAY_ZOOM,
+  MIN_ZOOM,
+  superGrid,
+} from "./levelOfDetail.ts";
+import { coinAt, testGrid } from "./testCoins.ts";
+
+Deno.test("only gameplay zoom shows every cell and coin", () => {
+  const gameplay = detailLevel(GAMEPLAY_ZOOM);
+  assert.equal(gameplay.gridScale, 1);
+  assert.equal(gameplay.clusterScale, 1);
+  assert.equal(gameplay.gridOpacity, 1);
+  assert.ok(gameplay.interactive);
+
+  let previous = gameplay;
+  for (let zoom = GAMEPLAY_ZOOM - 1; zoom >= MIN_ZOOM; zoom--) {
+    const level = detailLevel(zoom);
+    assert.ok(!level.interactive);
+    assert.equal(level.gridScale, 2 * previous.gridScale);
+    assert.ok(level.clusterScale > 1);
+    assert.ok(level.gridOpacity <= previous.gridOpacity);
+    previous = level;
+  }
+});
+
+Deno.test("super-hexes are centered on cells of the grid", () => {
+  for (const scale of [2, 4, 16]) {
+    const coarse = superGrid(testGrid, scale);
+    for (const [q, r] of [[0, 0], [1, -2], [-3, 5]]) {
+      const center = coarse.getCenter(q, r);
+      const cell = testGrid.getCenter(scale * q, scale * r);
+      assert.ok(Math.abs(center.lat - cell.lat) < 1e-9);
+      assert.ok(Math.abs(center.lng - cell.lng) < 1e-9);
+    }
+  }
+});
+
+Deno.test("clusters count coins and show the best craftable value", () => {
+  const coins = [
+    coinAt(0, 0, 3),
+    coinAt(1, 0, 8),
+    coinAt(0, 1, 1, "compass"),
+    coinAt(40, 0, 5),
+    coinAt(41, 0, 1, "magnet"),
+  ];
+  const clusters = clusterCoins(coins, testGrid, 8);
+  assert.equal(clusters.length, 2);
+  const near = clusters.find((cluster) => cluster.count === 3)!;
+  assert.deepEqual(near.coord, { q: 0, r: 0 });
+  assert.equal(near.best, 8);
+  const far = clusters.find((cluster) => cluster.count === 2)!;
+  assert.equal(far.best, 5);
+  assert.equal(
+    clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+    coins.length,
+  );
+});
+
+Deno.test("a cluster of usable coins has no best value", () => {
+  const [cluster] = clusterCoins([coinAt(2, 2, 1, "magnet")], testGrid, 4);
+  assert.equal(cluster.count, 1);
+  assert.equal(cluster.best, 0);
+});
@@ -0,0 +1,81 @@
+import { COIN_KINDS } from "./coinKinds.ts";
+import type { Coin } from "./generation.ts";
+import { GeoPoint, SharedCellData } from "./grid.ts";
+import type { HexCoord } from "./hex.ts";
+
+// The zoom the game is played at: one cell is about as wide as a coin sprite
+export const GAMEPLAY_ZOOM = 19;
+// Far enough out to see the whole loaded area and a good deal around it
+export const MIN_ZOOM = 13;
+
+// How the map is drawn at a zoom level
+export interface DetailLevel {
+  zoom: number;
+  // Cells per side of the hexes the grid is drawn with; 1 draws every cell.
+  // Doubling it for every zoom level out keeps hexes the same size on screen.
+  gridScale: number;
+  gridOpacity: number;
+  // Coins are grouped by hexes this many cells per side; 1 shows every coin
+  clusterScale: number;
+  // Cells and coins can only be clicked at gameplay zoom
+  interactive: boolean;
+}
+
+// Grid opacity by zoom levels out, and from the last one on
+const GRID_FADE = [1, 0.6, 0.4];
+
+export function detailLevel(zoom: number): DetailLevel {
+  const levelsOut = Math.max(0, GAMEPLAY_ZOOM - Math.round(zoom));
+  const scale = 2 ** levelsOut;
+  return {
+    zoom,
+    gridScale: scale,
+    gridOpacity: GRID_FADE[Math.min(levelsOut, GRID_FADE.length - 1)],
+    clusterScale: scale,
+    interactive: levelsOut === 0,
+  };
+}
+
+// The grid scaled up so each of its hexes covers `scale` cells per side.
+// Super-hex (q, r) is centered on cell (scale * q, scale * r).
+export function superGrid(grid: SharedCellData, scale: number): SharedCellData {
+  return new SharedCellData(grid.origin, grid.size * scale, grid.projection);
+}
+
+export interface CoinCluster {
+  // Super-hex the coins lie in
+  coord: HexCoord;
+  center: GeoPoint;
+  count: number;
+  // Highest value among the craftable coins; 0 if every coin is usable
+  best: number;
+}
+
+// Groups coins by the super-hex they lie in, in no particular order
+export function clusterCoins(
+  coins: Coin[],
+  grid: SharedCellData,
+  scale: number,
+): CoinCluster[] {
+  const coarse = superGrid(grid, scale);
+  const clusters = new Map<string, CoinCluster>();
+  for (const coin of coins) {
+    const coord = coarse.latLngToHex(coin.position.lat, coin.position.lng);
+    const id = `${coord.q},${coord.r}`;
+    let cluster = clusters.get(id);
+    if (!cluster) {
+      cluster = {
+        coord,
+        center: coarse.getCenter(coord.q, coord.r),
+        count: 0,
+        best: 0,
+      };
+      clusters.set(id, cluster);
+    }
+    cluster.count++;
+    if (!COIN_KINDS[coin.kind].usable) {
+      cluster.best = Math.max(cluster.best, coin.value);
+    }
+  }
+  return Array.from(clusters.values());
+}
@@ -4,25 +4,89 @@ import "leaflet/dist/leaflet.css";
 import "./_leafletWorkaround.ts";
 import "./style.css";
 
+import { biomeAt } from "./biomes.ts";
+import { compassTarget } from "./coinKinds.ts";
 import { config } from "./config.ts";
-import { CoinGenerator, craftCoin } from "./generation.ts";
-import { Inventory } from "./player.ts";
-import { Positioning } from "./positioning.ts";
 import {
+  CellsRegrownEventDetail,
+  CoinCraftedEventDetail,
+  CoinPickedUpEventDetail,
+  CoinPlacedEventDetail,
+  CoinSwappedEventDetail,
+  CoinUsedEventDetail,
+  GameEngine,
+  GameWonEventDetail,
+} from "./engine.ts";
+import { Coin } from "./generation.ts";
+import { SharedCellData } from "./grid.ts";
+import { DEFAULT_KEY_BINDINGS, MovementInput, rebindKey } from "./input.ts";
+import { migrateGameState } from "./migrations.ts";
+import {
+  OverlayRenderedEventDetail,
+  OverlayRenderer,
+} from "./overlayRenderer.ts";
+import { GAMEPLAY_ZOOM, MIN_ZOOM } from "./levelOfDetail.ts";
+import { InventoryChangedEventDetail } from "./player.ts";
+import { GpsInaccurateEventDetail, Positioning } from "./positioning.ts";
+import { decodeSave, encodeSave, SaveEncoding } from "./saveFile.ts";
+import {
+  createSlot,
+  deleteSlot,
+  duplicateSlot,
+  getActiveSlotId,
+  getSlotSummary,
+  listSlots,
+  recoverSlots,
+  renameSlot,
+  setActiveSlot,
+} from "./saveSlots.ts";
+import {
+  GameState,
   loadGameState,
+  LoadResult,
   persistCurrentState,
-  restoreIntoWorld,
+  restoreIntoEngine,
+  snapshotGameState,
+  summarizeGameState,
 } from "./serialization.ts";
+import { openStorageBackend } from "./storage.ts";
 import {
+  parseTrack,
+  ReplayState,
+  serializeTrack,
+  TrackPlayer,
+  TrackPoint,
+  TrackRecorder,
+} from "./tracks.ts";
+import {
+  createBiomeBadge,
   createCoinPopup,
   createHomeButton,
+  createImportPreview,
   createInventoryUI,
   createSettingsButton,
   createSettingsWindow,
+  createTimingPanel,
+  downloadFile,
+  hideGpsError,
+  refreshSettingsWindow,
+  renderKeyBindings,
+  renderSaveSlots,
+  setTimingPanelVisible,
   settingsWindow,
+  showGpsError,
+  updateBiomeBadge,
   updateInventoryUI,
+  updateRecordButton,
+  updateReplayControls,
+  updateTimingPanel,
 } from "./ui.ts";
 import { World } from "./world.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  sizeCellsAt,
+  WorldSettings,
+} from "./worldSettings.ts";
 
 const CLASSROOM_LATLNG = leaflet.latLng(
   36.997936938057016,
@@ -30,8 +94,8 @@ const CLASSROOM_LATLNG = leaflet.latLng(
 );
 
 // Tunable gameplay parameters
-const GAMEPLAY_ZOOM_LEVEL = 19;
-const PLAYER_REACH_DISTANCE = 60; // meters
+const REGROW_CHECK_MS = 30000;
+const COMPASS_DURATION_MS = 15000;
 
 const eventBus = new EventTarget();
 const mapDiv = document.createElement("div");
@@ -39,19 +103,36 @@ mapDiv.id = "map";
 document.body.append(mapDiv);
 
 // Restore persisted config (and player position if in UI mode) on initial page load only
-const restored = loadGameState();
+const storage = await openStorageBackend();
+const recoveredSlots = await recoverSlots(storage);
+let activeSlotId = getActiveSlotId();
+const { state: restored, error: loadError, backupLocation } =
+  await loadGameState(storage, activeSlotId);
 let startLatLng = CLASSROOM_LATLNG;
 if (restored) {
   config.debugMovement = restored.config.debugMovement;
+  config.keyBindings = { ...restored.config.keyBindings };
+  config.travelStepMs = restored.config.travelStepMs;
   if (restored.player) {
     startLatLng = leaflet.latLng(restored.player.lat, restored.player.lng);
   }
 }
 
-const inventory = new Inventory(null, eventBus);
-const inventoryUI = createInventoryUI();
+// The grid is anchored at Null Island, in the restored world's geometry
+const startWorld = restored?.world ??
+  sizeCellsAt(DEFAULT_WORLD_SETTINGS, startLatLng.lat);
+const grid = new SharedCellData(
+  leaflet.latLng(0, 0),
+  startWorld.cellSize,
+  startWorld.projection,
+);
+const startCoord = grid.latLngToHex(startLatLng.lat, startLatLng.lng);
+const engine = new GameEngine(eventBus, grid, {
+  position: grid.getCenter(startCoord.q, startCoord.r),
+  reach: DEFAULT_WORLD_SETTINGS.reach,
+});
+const inventoryUI = createInventoryUI(eventBus);
 mapDiv.append(inventoryUI);
-updateInventoryUI(inventory);
 
 const homeButton = createHomeButton(eventBus);
 homeButton.style.position = "absolute";
@@ -59,27 +140,45 @@ homeButton.style.top = "10px";
 homeButton.style.right = "10px";
 homeButton.style.zIndex = "1000";
 mapDiv.append(homeButton);
+mapDiv.append(createBiomeBadge());
+mapDiv.append(createTimingPanel());
 
-const coinGenerator = new CoinGenerator();
-
-const world = new World(leaflet.latLng(0, 0), coinGenerator);
+const world = new World(
+  grid,
+  engine.generator,
+  engine.persisted,
+  new OverlayRenderer(eventBus),
+);
 if (restored) {
-  restoreIntoWorld(restored, world, inventory);
+  restoreIntoEngine(restored, engine, { storage, slotId: activeSlotId });
+} else {
+  engine.applySettings(startWorld);
+}
+if (loadError) {
+  // The unreadable save has been backed up; overwrite it with the new game
+  engine.persisted.setEntries([]);
+  const backupNote = backupLocation
+    ? ` A copy of it was kept in ${backupLocation}.`
+    : "";
+  alert(
+    `Your save could not be loaded: ${loadError}.${backupNote} Starting a new game.`,
+  );
 }
+if (recoveredSlots.length > 0) {
+  alert(
+    `Found ${recoveredSlots.length} saved game(s) missing from your save slots. They are listed again as "Recovered game" slots in the settings.`,
+  );
+}
+updateInventoryUI(engine.inventory);
 const map = leaflet.map(mapDiv, {
   center: startLatLng,
-  zoom: GAMEPLAY_ZOOM_LEVEL,
-  minZoom: GAMEPLAY_ZOOM_LEVEL,
-  maxZoom: GAMEPLAY_ZOOM_LEVEL,
+  zoom: GAMEPLAY_ZOOM,
+  minZoom: MIN_ZOOM,
+  maxZoom: GAMEPLAY_ZOOM,
   zoomControl: false,
-  scrollWheelZoom: false,
-  touchZoom: false,
-  doubleClickZoom: false,
 });
+leaflet.control.zoom({ position: "bottomright" }).addTo(map);
 
-const initialCell = world.getCellAtLatLng(startLatLng);
-
-const playerPosition = initialCell.center;
 const mode: "gps" | "ui" = config.debugMovement ? "ui" : "gps";
 // Populate the map with a background tile layer
 leaflet
@@ -100,159 +199,521 @@ document.body.append(createSettingsWindow(eventBus));
 
 const positioning = new Positioning(
   world,
-  { position: playerPosition, reach: PLAYER_REACH_DISTANCE },
+  engine.player,
   {
     position: map.getCenter(),
     reach: map.getBounds().getNorthEast().distanceTo(map.getCenter()),
   },
   map,
   eventBus,
+  () => engine.settings.loadRadius,
   mode,
 );
 
+new MovementInput(eventBus, () => config.keyBindings);
+
 // Debounced auto-save helper
 let persistTimeout: number | null = null;
+// Set while another slot loads, so the game being left is never written into
+// the slot that is loading
+let persistPaused = false;
+function persistNow(): Promise<void> {
+  if (persistTimeout !== null) {
+    clearTimeout(persistTimeout);
+    persistTimeout = null;
+  }
+  if (persistPaused) return Promise.resolve();
+  return persistCurrentState(storage, activeSlotId, config, engine);
+}
+
 function requestPersist(delay: number = 750) {
   if (persistTimeout !== null) {
     clearTimeout(persistTimeout);
   }
   persistTimeout = setTimeout(() => {
     persistTimeout = null;
-    persistCurrentState(config, positioning, world, inventory);
+    if (!persistPaused) {
+      persistCurrentState(storage, activeSlotId, config, engine);
+    }
   }, delay);
 }
 
 // Flush on page hide/unload
 globalThis.addEventListener("beforeunload", () => {
-  if (persistTimeout !== null) {
-    clearTimeout(persistTimeout);
-  }
-  persistCurrentState(config, positioning, world, inventory);
+  persistNow();
 });
 document.addEventListener("visibilitychange", () => {
   if (document.visibilityState === "hidden") {
-    if (persistTimeout !== null) {
-      clearTimeout(persistTimeout);
-      persistTimeout = null;
-    }
-    persistCurrentState(config, positioning, world, inventory);
+    persistNow();
   }
 });
 
 //#region Game Logic
 
-eventBus.addEventListener("inventory-changed", () => {
-  updateInventoryUI(inventory);
+eventBus.addEventListener("inventory-changed", (event) => {
+  const { slots } = (event as CustomEvent<InventoryChangedEventDetail>).detail;
+  updateInventoryUI(engine.inventory, slots);
 });
 
-eventBus.addEventListener("coin-hovered", (event) => {
-  const detail = (event as CustomEvent).detail;
-  const coin = detail.coin;
-  if (coin.position.distanceTo(positioning.position) > positioning.reach) {
-    return; // Out of reach
-  }
-  createCoinPopup(map, coin);
+eventBus.addEventListener("select-slot", (event) => {
+  engine.inventory.select((event as CustomEvent).detail.slot as number);
+  requestPersist();
+});
+
+eventBus.addEventListener("move-slot", (event) => {
+  const { from, to } = (event as CustomEvent).detail;
+  engine.inventory.move(from as number, to as number);
+  requestPersist();
 });
 
 eventBus.addEventListener("coin-clicked", (event) => {
   const detail = (event as CustomEvent).detail;
-  const coin = detail.coin;
-  if (coin.position.distanceTo(positioning.position) > positioning.reach) {
-    return; // Out of reach
-  }
+  const coin = detail.coin as Coin;
+  createCoinPopup(
+    map,
+    coin,
+    engine.inventory,
+    engine.getActions(coin),
+    eventBus,
+  );
+});
 
-  if (inventory.hasItem() && inventory.coin!.value === coin.value) {
-    const oldCoin = inventory.coin;
-    inventory.swapItem(craftCoin(oldCoin!, coin));
-    world.removeCoin(coin.id, map);
-    world.persistRemovedCell(coin.cell.id);
-    requestPersist();
-    if ((inventory.coin?.value ?? 0) >= 256) {
-      alert("You have crafted a 256 coin and won the game!");
-    }
-  } else {
-    requestPersist();
-    world.removeCoin(coin.id, map);
-    world.persistRemovedCell(coin.cell.id);
-    coin.history.push(`Picked up from cell ${coin.cell.id}`);
-    const oldCoin = inventory.swapItem(coin);
-    if (oldCoin) {
-      oldCoin.position = coin.position;
-      oldCoin.cell = coin.cell;
-      oldCoin.history.push(`Placed in cell ${coin.cell.id}`);
-      world.addCoin(
-        oldCoin,
-        positioning.position.distanceTo(oldCoin.position) <=
-          positioning.reach,
-        eventBus,
-        map,
+eventBus.addEventListener("pick-up-coin", (event) => {
+  engine.pickUp((event as CustomEvent).detail.coin as Coin);
+});
+
+eventBus.addEventListener("swap-coin", (event) => {
+  engine.swap((event as CustomEvent).detail.coin as Coin);
+});
+
+eventBus.addEventListener("craft-coin", (event) => {
+  const { coin, recipeId } = (event as CustomEvent).detail;
+  engine.craft(coin as Coin, recipeId as string | undefined);
+});
+
+eventBus.addEventListener("use-coin", (event) => {
+  engine.use((event as CustomEvent).detail.coin as Coin);
+});
+
+eventBus.addEventListener("close-coin-popup", () => {
+  map.closePopup();
+});
+
+// Coins and cells cannot be clicked when zoomed out; a click zooms back in
+// on that spot instead
+map.addEventListener("zoomend", () => {
+  if (!world.interactive) map.closePopup();
+});
+
+map.addEventListener("click", (event: { latlng: LatLng }) => {
+  if (!world.interactive) {
+    map.setView(event.latlng, GAMEPLAY_ZOOM);
+    return;
+  }
+  const cell = world.getCellAtLatLng(event.latlng);
+  if (engine.isWithinReach(cell.center)) {
+    const coinInCell = world.getCoinInCell(cell);
+    if (coinInCell) {
+      eventBus.dispatchEvent(
+        new CustomEvent("coin-clicked", { detail: { coin: coinInCell } }),
       );
-      world.persistCoinSnapshot(oldCoin);
+      return;
     }
-    persistCurrentState(config, positioning, world, inventory);
+    if (engine.place(cell)) return;
+  }
+  // Clicks that do nothing else pick a destination in UI movement mode
+  if (positioning.getMode() === "ui") {
+    positioning.travelTo(cell.coord, config.travelStepMs, eventBus);
   }
-  eventBus.dispatchEvent(new CustomEvent("coin-unhovered"));
 });
 
-eventBus.addEventListener("coin-unhovered", () => {
+// Keep the map in step with what the engine did
+eventBus.addEventListener("coin-picked-up", (event) => {
+  const { coin } = (event as CustomEvent<CoinPickedUpEventDetail>).detail;
+  world.removeCoin(coin, map);
+  requestPersist();
   map.closePopup();
 });
 
-map.addEventListener("click", (event: { latlng: LatLng }) => {
-  const latlng = event.latlng;
-  const cell = world.getCellAtLatLng(latlng);
+eventBus.addEventListener("coin-swapped", (event) => {
+  const { coin, placed } =
+    (event as CustomEvent<CoinSwappedEventDetail>).detail;
+  world.removeCoin(coin, map);
+  world.addCoin(placed, engine.isWithinReach(placed.position), eventBus, map);
+  requestPersist();
+  map.closePopup();
+});
 
-  const distance = cell.center.distanceTo(positioning.position);
-  if (distance > positioning.reach) return;
+eventBus.addEventListener("coin-crafted", (event) => {
+  const { consumed } = (event as CustomEvent<CoinCraftedEventDetail>).detail;
+  for (const coin of consumed) world.removeCoin(coin, map);
+  requestPersist();
+  map.closePopup();
+});
 
-  const coinInCell = world.getCoinInCell(cell);
-  if (coinInCell) {
-    eventBus.dispatchEvent(
-      new CustomEvent("coin-clicked", { detail: { coin: coinInCell } }),
-    );
-  } else if (inventory.hasItem()) {
-    inventory.coin!.position = cell.center;
-    inventory.coin!.cell = cell;
-    inventory.coin!.history.push(`Placed in cell ${cell.id}`);
-    const placed = inventory.removeItem()!;
-    world.addCoin(
-      placed,
-      true,
-      eventBus,
-      map,
-    );
-    world.persistCoinSnapshot(placed);
-    requestPersist();
+eventBus.addEventListener("coin-used", (event) => {
+  const { coin } = (event as CustomEvent<CoinUsedEventDetail>).detail;
+  world.removeCoin(coin, map);
+  requestPersist();
+  map.closePopup();
+  if (coin.kind === "compass") pointCompass();
+});
+
+eventBus.addEventListener("reach-changed", () => {
+  world.updateCoinReaches(engine.player);
+});
+
+let compassLine: leaflet.Polyline | null = null;
+let compassTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function pointCompass(): void {
+  if (compassLine) map.removeLayer(compassLine);
+  if (compassTimeout !== null) clearTimeout(compassTimeout);
+  const target = compassTarget(engine.player.position, world.getActiveCoins());
+  if (!target) {
+    compassLine = null;
+    alert("The compass spins: there are no coins nearby.");
+    return;
   }
+  compassLine = leaflet.polyline([engine.player.position, target.position], {
+    color: "#f9a825",
+    weight: 3,
+    dashArray: "4 6",
+    interactive: false,
+  }).addTo(map);
+  compassLine.bindTooltip(`Best coin nearby: ${target.value}`, {
+    permanent: true,
+    direction: "center",
+  });
+  compassTimeout = setTimeout(() => {
+    if (compassLine) map.removeLayer(compassLine);
+    compassLine = null;
+  }, COMPASS_DURATION_MS);
+}
+
+eventBus.addEventListener("coin-placed", (event) => {
+  const { coin } = (event as CustomEvent<CoinPlacedEventDetail>).detail;
+  world.addCoin(coin, true, eventBus, map);
+  requestPersist();
+});
+
+eventBus.addEventListener("game-won", (event) => {
+  const { coin } = (event as CustomEvent<GameWonEventDetail>).detail;
+  alert(`You have crafted a ${coin.value} coin and won the game!`);
+});
+
+setInterval(() => engine.regrowExpired(), REGROW_CHECK_MS);
+
+eventBus.addEventListener("cells-regrown", (event) => {
+  const { cellIds } = (event as CustomEvent<CellsRegrownEventDetail>).detail;
+  world.regrowCells(cellIds, engine.player, eventBus, map);
+  requestPersist();
 });
 //#endregion
 
 //#region Settings
+function refreshSaveSlots(): void {
+  renderSaveSlots(listSlots(), activeSlotId, eventBus);
+}
+
 eventBus.addEventListener("toggle-settings", () => {
-  settingsWindow!.style.display = settingsWindow!.style.display === "none"
-    ? "block"
-    : "none";
+  const opening = settingsWindow!.style.display === "none";
+  if (opening) {
+    persistNow();
+    refreshSaveSlots();
+  }
+  settingsWindow!.style.display = opening ? "block" : "none";
 });
 
-eventBus.addEventListener("new-game", () => {
-  inventory.clear();
-  updateInventoryUI(inventory);
+// `settings` gives the cell size on the ground
+function resetGame(settings: WorldSettings): void {
+  map.closePopup();
+  engine.reset();
   world.clear(map);
+  const start = config.debugMovement
+    ? CLASSROOM_LATLNG
+    : engine.player.position;
+  engine.applySettings(sizeCellsAt(settings, start.lat));
+  refreshBiome();
   if (config.debugMovement) {
     positioning.resetTo(CLASSROOM_LATLNG, eventBus);
   }
+}
+
+function switchToSlot(slotId: string): void {
+  persistNow();
+  activeSlotId = slotId;
+  setActiveSlot(slotId);
+}
+
+// Starting a new game opens a fresh slot; the previous save is kept
+eventBus.addEventListener("new-game", (event) => {
+  switchToSlot(createSlot().id);
+  resetGame((event as CustomEvent).detail.world as WorldSettings);
+  persistNow();
+  refreshSaveSlots();
+});
+
+// The current game stays active until the other slot has loaded
+eventBus.addEventListener("load-slot", async (event) => {
+  const slotId = (event as CustomEvent).detail.slotId as string;
+  if (slotId === activeSlotId) return;
+  await persistNow();
+  persistPaused = true;
+  let result: LoadResult;
+  try {
+    result = await loadGameState(storage, slotId);
+  } finally {
+    persistPaused = false;
+  }
+  if (result.error) {
+    const backupNote = result.backupLocation
+      ? ` A copy of it was kept in ${result.backupLocation}.`
+      : "";
+    alert(
+      `This save could not be loaded: ${result.error}.${backupNote} You are still playing your current game.`,
+    );
+    return;
+  }
+  switchToSlot(slotId);
+  if (result.state) {
+    applyGameState(result.state);
+  } else {
+    resetGame(DEFAULT_WORLD_SETTINGS);
+    persistNow();
+  }
+  refreshSaveSlots();
+  settingsWindow!.style.display = "none";
+});
+
+eventBus.addEventListener("rename-slot", (event) => {
+  const { slotId, name } = (event as CustomEvent).detail;
+  renameSlot(slotId, name);
+  refreshSaveSlots();
+});
+
+eventBus.addEventListener("duplicate-slot", async (event) => {
+  const slotId = (event as CustomEvent).detail.slotId as string;
+  if (slotId === activeSlotId) await persistNow();
+  await duplicateSlot(storage, slotId);
+  refreshSaveSlots();
+});
+
+eventBus.addEventListener("delete-slot", async (event) => {
+  const slotId = (event as CustomEvent).detail.slotId as string;
+  await deleteSlot(storage, slotId);
+  refreshSaveSlots();
+});
+
+function applyGameState(state: GameState): void {
+  map.closePopup();
+  stopReplay();
+  engine.reset();
+  world.clear(map);
+  restoreIntoEngine(state, engine, { storage, slotId: activeSlotId });
+  config.debugMovement = state.config.debugMovement;
+  config.keyBindings = { ...state.config.keyBindings };
+  config.travelStepMs = state.config.travelStepMs;
+  refreshSettingsWindow();
+  renderKeyBindings(config.keyBindings, eventBus);
+  positioning.setMode(config.debugMovement ? "ui" : "gps", eventBus);
+  positioning.resetTo(
+    leaflet.latLng(state.player.lat, state.player.lng),
+    eventBus,
+  );
+  persistNow();
+}
+
+eventBus.addEventListener("export-save", async (event) => {
+  const encoding = (event as CustomEvent).detail.encoding as SaveEncoding;
+  try {
+    // The world only holds nearby regions, so export what was just saved
+    await persistNow();
+    const state = migrateGameState(await storage.readSave(activeSlotId));
+    const file = await encodeSave(state, encoding);
+    downloadFile(file.filename, file.content, file.mimeType);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    alert(`Could not export the save: ${message}`);
+  }
+});
+
+eventBus.addEventListener("import-save", async (event) => {
+  const file = (event as CustomEvent).detail.file as File;
+  let state: GameState;
+  try {
+    state = await decodeSave(await file.text());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    alert(`Could not import "${file.name}": ${message}`);
+    return;
+  }
+  await persistNow();
+  const current = getSlotSummary(activeSlotId) ??
+    summarizeGameState(
+      snapshotGameState(config, engine),
+    );
+  createImportPreview(
+    current,
+    summarizeGameState(state),
+    state,
+    eventBus,
+  );
+});
+
+eventBus.addEventListener("apply-imported-save", (event) => {
+  applyGameState((event as CustomEvent).detail.state as GameState);
+  settingsWindow!.style.display = "none";
 });
 
 eventBus.addEventListener("toggle-movement-mode", (event) => {
   const detail = (event as CustomEvent).detail;
+  stopReplay();
   positioning.setMode(detail.mode, eventBus);
   config.debugMovement = detail.mode === "ui";
+  if (detail.mode !== "gps") hideGpsError();
+  refreshSettingsWindow();
+  requestPersist();
+});
+
+eventBus.addEventListener("gps-error", (event) => {
+  if (positioning.getMode() !== "gps") return;
+  const { message } = (event as CustomEvent).detail;
+  showGpsError(`${message} You can keep playing by moving manually.`, eventBus);
+});
+
+// A fix arriving means any earlier error has cleared up
+eventBus.addEventListener("gps-position", () => {
+  hideGpsError();
+});
+
+// Raised after each raw fix, so the warning stays up while fixes stay poor
+eventBus.addEventListener("gps-inaccurate", (event) => {
+  if (positioning.getMode() !== "gps") return;
+  const { accuracy, maxAccuracy } =
+    (event as CustomEvent<GpsInaccurateEventDetail>).detail;
+  showGpsError(
+    `Your location is only accurate to about ${
+      Math.round(accuracy)
+    } m, so it is ignored until it is within ${maxAccuracy} m. Wi-Fi and desktop locations are often this rough; you can keep playing by moving manually.`,
+    eventBus,
+  );
+});
+
+eventBus.addEventListener("rebind-key", (event) => {
+  const { direction, code } = (event as CustomEvent).detail;
+  config.keyBindings = rebindKey(config.keyBindings, direction, code);
+  renderKeyBindings(config.keyBindings, eventBus);
+  requestPersist();
+});
+
+eventBus.addEventListener("reset-key-bindings", () => {
+  config.keyBindings = { ...DEFAULT_KEY_BINDINGS };
+  renderKeyBindings(config.keyBindings, eventBus);
+  requestPersist();
+});
+
+eventBus.addEventListener("toggle-timings", (event) => {
+  setTimingPanelVisible((event as CustomEvent).detail.visible as boolean);
+});
+
+eventBus.addEventListener("overlay-rendered", (event) => {
+  updateTimingPanel((event as CustomEvent<OverlayRenderedEventDetail>).detail);
+});
+
+// Applies from the next trip
+eventBus.addEventListener("set-travel-step", (event) => {
+  config.travelStepMs = (event as CustomEvent).detail.stepMs as number;
   requestPersist();
 });
 //#endregion
 
+//#region Track Replay
+let trackPlayer: TrackPlayer | null = null;
+const trackRecorder = new TrackRecorder();
+
+function stopReplay(): void {
+  if (!trackPlayer) return;
+  trackPlayer.pause();
+  trackPlayer = null;
+  updateReplayControls(null);
+  positioning.setMode(config.debugMovement ? "ui" : "gps", eventBus);
+}
+
+eventBus.addEventListener("load-track", async (event) => {
+  const { file, speed, loop } = (event as CustomEvent).detail;
+  let points: TrackPoint[];
+  try {
+    points = parseTrack(await (file as File).text());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    alert(`Could not load track "${file.name}": ${message}`);
+    return;
+  }
+  trackPlayer?.pause();
+  trackPlayer = new TrackPlayer(points, eventBus, speed, loop);
+  positioning.setMode("replay", eventBus);
+  trackPlayer.seek(0);
+});
+
+eventBus.addEventListener("toggle-replay", () => {
+  if (trackPlayer?.state.playing) {
+    trackPlayer.pause();
+  } else {
+    trackPlayer?.play();
+  }
+});
+
+eventBus.addEventListener("set-replay-speed", (event) => {
+  trackPlayer?.setSpeed((event as CustomEvent).detail.speed);
+});
+
+eventBus.addEventListener("set-replay-loop", (event) => {
+  trackPlayer?.setLoop((event as CustomEvent).detail.loop);
+});
+
+eventBus.addEventListener("stop-replay", () => {
+  stopReplay();
+});
+
+eventBus.addEventListener("replay-state-changed", (event) => {
+  updateReplayControls((event as CustomEvent).detail as ReplayState);
+});
+
+eventBus.addEventListener("gps-position", (event) => {
+  trackRecorder.record((event as CustomEvent).detail as TrackPoint);
+});
+
+eventBus.addEventListener("toggle-recording", () => {
+  if (!trackRecorder.isRecording) {
+    trackRecorder.start();
+    updateRecordButton(true);
+    return;
+  }
+  const points = trackRecorder.stop();
+  updateRecordButton(false);
+  if (points.length === 0) {
+    alert("No GPS positions were recorded.");
+    return;
+  }
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  downloadFile(
+    `geocoin-track-${stamp}.json`,
+    serializeTrack(points),
+    "application/json",
+  );
+});
+//#endregion
+
+function refreshBiome(): void {
+  const { lat, lng } = positioning.position;
+  updateBiomeBadge(biomeAt(grid.latLngToHex(lat, lng), engine.settings.seed));
+}
+refreshBiome();
+
 eventBus.addEventListener("player-moved", () => {
   requestPersist(500); // slightly faster debounce for movement
+  refreshBiome();
 });
 
 eventBus.addEventListener("move-camera-home", () => {
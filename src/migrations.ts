@@ -0,0 +1,424 @@
+import { isCoinKind } from "./coinKinds.ts";
+import { DEFAULT_TRAVEL_STEP_MS } from "./config.ts";
+import type { CoinMemento } from "./generation.ts";
+import { GRID_PROJECTIONS, GridProjection, METERS_PER_DEGREE } from "./grid.ts";
+import { HEX_DIRECTIONS, HexDirection } from "./hex.ts";
+import { isHistoryEvent, migrateHistory } from "./history.ts";
+import { DEFAULT_KEY_BINDINGS, KeyBindings } from "./input.ts";
+import type { GameState, PersistedCoinEntry } from "./serialization.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  ValueDistribution,
+  WorldSettings,
+} from "./worldSettings.ts";
+
+// Bump this whenever the shape of GameState changes, and add a migration that
+// upgrades a save from the previous version.
+export const CURRENT_SAVE_VERSION = 7;
+
+// Hex radius in degrees before cell sizes were given in meters
+const ORIGINAL_CELL_SIZE_DEGREES = 0.00005;
+
+export class SaveMigrationError extends Error {
+  constructor(message: string, public readonly version: number | null) {
+    super(message);
+    this.name = "SaveMigrationError";
+  }
+}
+
+type RawSave = Record<string, unknown>;
+type Migration = (save: RawSave) => RawSave;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function migrateMementoHistory(memento: unknown): unknown {
+  if (!isRecord(memento) || !Array.isArray(memento.history)) return memento;
+  return {
+    ...memento,
+    history: migrateHistory(
+      memento.history,
+      memento as { q: number; r: number; lat: number; lng: number },
+    ),
+  };
+}
+
+// migrations[n] upgrades a version n save to version n + 1
+const migrations: Record<number, Migration> = {
+  // Unversioned saves stored coin history as free-text strings
+  0: (save) => ({
+    ...save,
+    persistedCoins: Array.isArray(save.persistedCoins)
+      ? save.persistedCoins.map((entry) =>
+        isRecord(entry)
+          ? { ...entry, memento: migrateMementoHistory(entry.memento) }
+          : entry
+      )
+      : save.persistedCoins,
+    inventoryCoin: migrateMementoHistory(save.inventoryCoin),
+  }),
+  // Key bindings were added to the config
+  1: (save) => ({
+    ...save,
+    config: isRecord(save.config)
+      ? { ...save.config, keyBindings: { ...DEFAULT_KEY_BINDINGS } }
+      : save.config,
+  }),
+  // Click-to-travel got a configurable step interval
+  2: (save) => ({
+    ...save,
+    config: isRecord(save.config)
+      ? { ...save.config, travelStepMs: DEFAULT_TRAVEL_STEP_MS }
+      : save.config,
+  }),
+  // Worlds became configurable; older saves keep the original rules
+  3: (save) => ({
+    ...save,
+    world: {
+      ...structuredClone(DEFAULT_WORLD_SETTINGS),
+      cellSize: ORIGINAL_CELL_SIZE_DEGREES,
+    },
+  }),
+  // Emptied cells learned to regrow. Older tombstones carry no time, so
+  // their cells stay empty as they always have.
+  4: (save) => ({
+    ...save,
+    world: isRecord(save.world)
+      ? { ...save.world, regrowMs: null }
+      : save.world,
+  }),
+  // The single held coin became a list of inventory slots
+  5: ({ inventoryCoin, ...save }) => ({
+    ...save,
+    world: isRecord(save.world)
+      ? { ...save.world, inventorySlots: 1 }
+      : save.world,
+    inventoryCoins: [inventoryCoin ?? null],
+    activeSlot: 0,
+  }),
+  // The grid moved to a metric projection; older worlds keep their cells
+  // where they were
+  6: (save) => ({
+    ...save,
+    world: isRecord(save.world)
+      ? {
+        ...save.world,
+        cellSize: typeof save.world.cellSize === "number"
+          ? save.world.cellSize * METERS_PER_DEGREE
+          : save.world.cellSize,
+        projection: "plate-carree",
+      }
+      : save.world,
+  }),
+};
+
+function fail(path: string, expected: string, version: number): never {
+  throw new SaveMigrationError(
+    `Invalid save at ${path}: expected ${expected}`,
+    version,
+  );
+}
+
+function expectNumber(value: unknown, path: string, version: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, "a number", version);
+  }
+  return value;
+}
+
+function validateKeyBindings(
+  value: unknown,
+  path: string,
+  version: number,
+): KeyBindings {
+  if (!isRecord(value)) fail(path, "an object", version);
+  const bindings = {} as KeyBindings;
+  for (const direction of Object.keys(HEX_DIRECTIONS) as HexDirection[]) {
+    const code = value[direction];
+    if (typeof code !== "string" || code === "") {
+      fail(`${path}.${direction}`, "a key code", version);
+    }
+    bindings[direction] = code;
+  }
+  return bindings;
+}
+
+function expectPositive(value: unknown, path: string, version: number): number {
+  const number = expectNumber(value, path, version);
+  if (number <= 0) fail(path, "a positive number", version);
+  return number;
+}
+
+function validateProjection(
+  value: unknown,
+  path: string,
+  version: number,
+): GridProjection {
+  if (!GRID_PROJECTIONS.includes(value as GridProjection)) {
+    fail(path, `one of ${GRID_PROJECTIONS.join(", ")}`, version);
+  }
+  return value as GridProjection;
+}
+
+function expectSlotCount(
+  value: unknown,
+  path: string,
+  version: number,
+): number {
+  const count = expectNumber(value, path, version);
+  if (!Number.isInteger(count) || count < 1) {
+    fail(path, "a whole number of at least 1", version);
+  }
+  return count;
+}
+
+function validateValueDistribution(
+  value: unknown,
+  path: string,
+  version: number,
+): ValueDistribution {
+  if (!isRecord(value)) fail(path, "an object", version);
+  switch (value.kind) {
+    case "uniform": {
+      const min = expectNumber(value.min, `${path}.min`, version);
+      const max = expectNumber(value.max, `${path}.max`, version);
+      if (!Number.isInteger(min) || min < 1 || max < min) {
+        fail(path, "whole values with 1 <= min <= max", version);
+      }
+      return { kind: "uniform", min, max };
+    }
+    case "powers-of-two": {
+      const maxExponent = expectNumber(
+        value.maxExponent,
+        `${path}.maxExponent`,
+        version,
+      );
+      if (!Number.isInteger(maxExponent) || maxExponent < 0) {
+        fail(`${path}.maxExponent`, "a whole number", version);
+      }
+      return {
+        kind: "powers-of-two",
+        maxExponent,
+        ratio: expectPositive(value.ratio, `${path}.ratio`, version),
+      };
+    }
+    default:
+      fail(`${path}.kind`, "a known value distribution", version);
+  }
+}
+
+function validateWorldSettings(
+  value: unknown,
+  path: string,
+  version: number,
+): WorldSettings {
+  if (!isRecord(value)) fail(path, "an object", version);
+  if (typeof value.seed !== "string") {
+    fail(`${path}.seed`, "a string", version);
+  }
+  const spawnProbability = expectNumber(
+    value.spawnProbability,
+    `${path}.spawnProbability`,
+    version,
+  );
+  if (spawnProbability < 0 || spawnProbability > 1) {
+    fail(`${path}.spawnProbability`, "a number from 0 to 1", version);
+  }
+  return {
+    seed: value.seed,
+    cellSize: expectPositive(value.cellSize, `${path}.cellSize`, version),
+    projection: validateProjection(
+      value.projection,
+      `${path}.projection`,
+      version,
+    ),
+    spawnProbability,
+    valueDistribution: validateValueDistribution(
+      value.valueDistribution,
+      `${path}.valueDistribution`,
+      version,
+    ),
+    reach: expectPositive(value.reach, `${path}.reach`, version),
+    loadRadius: expectPositive(value.loadRadius, `${path}.loadRadius`, version),
+    regrowMs: value.regrowMs === null
+      ? null
+      : expectPositive(value.regrowMs, `${path}.regrowMs`, version),
+    inventorySlots: expectSlotCount(
+      value.inventorySlots,
+      `${path}.inventorySlots`,
+      version,
+    ),
+  };
+}
+
+function validateMemento(
+  value: unknown,
+  path: string,
+  version: number,
+): CoinMemento {
+  if (!isRecord(value)) fail(path, "a coin", version);
+  if (typeof value.id !== "string") fail(`${path}.id`, "a string", version);
+  for (const key of ["value", "lat", "lng", "q", "r"]) {
+    expectNumber(value[key], `${path}.${key}`, version);
+  }
+  if (!Array.isArray(value.history)) {
+    fail(`${path}.history`, "an array", version);
+  }
+  value.history.forEach((event, index) => {
+    if (!isHistoryEvent(event)) {
+      fail(`${path}.history[${index}]`, "a history event", version);
+    }
+  });
+  if (value.sprite !== undefined && typeof value.sprite !== "string") {
+    fail(`${path}.sprite`, "a string", version);
+  }
+  if (value.kind !== undefined && !isCoinKind(value.kind)) {
+    fail(`${path}.kind`, "a coin kind", version);
+  }
+  return value as unknown as CoinMemento;
+}
+
+function validatePersistedEntry(
+  entry: unknown,
+  path: string,
+  version: number,
+): PersistedCoinEntry {
+  if (!isRecord(entry) || typeof entry.cellId !== "string") {
+    fail(path, "an entry with a cellId", version);
+  }
+  if (entry.memento !== null) {
+    return {
+      cellId: entry.cellId,
+      memento: validateMemento(entry.memento, `${path}.memento`, version),
+    };
+  }
+  const tombstone: PersistedCoinEntry = { cellId: entry.cellId, memento: null };
+  if (entry.emptiedAt !== undefined) {
+    tombstone.emptiedAt = expectNumber(
+      entry.emptiedAt,
+      `${path}.emptiedAt`,
+      version,
+    );
+  }
+  return tombstone;
+}
+
+// Region reads happen after the save has been migrated, so entries are
+// validated against the current version. Invalid ones are reported and
+// skipped rather than failing the whole region.
+export function validatePersistedEntries(
+  entries: unknown[],
+): { entries: PersistedCoinEntry[]; errors: string[] } {
+  const valid: PersistedCoinEntry[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    try {
+      valid.push(
+        validatePersistedEntry(entry, `[${index}]`, CURRENT_SAVE_VERSION),
+      );
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  });
+  return { entries: valid, errors };
+}
+
+export function needsMigration(raw: unknown): boolean {
+  return !isRecord(raw) || raw.version !== CURRENT_SAVE_VERSION;
+}
+
+function validateGameState(save: RawSave, version: number): GameState {
+  if (!isRecord(save.config)) fail("config", "an object", version);
+  if (!isRecord(save.player)) fail("player", "an object", version);
+  const state: GameState = {
+    version,
+    config: {
+      debugMovement: Boolean(save.config.debugMovement),
+      keyBindings: validateKeyBindings(
+        save.config.keyBindings,
+        "config.keyBindings",
+        version,
+      ),
+      travelStepMs: expectNumber(
+        save.config.travelStepMs,
+        "config.travelStepMs",
+        version,
+      ),
+    },
+    world: validateWorldSettings(save.world, "world", version),
+    player: {
+      lat: expectNumber(save.player.lat, "player.lat", version),
+      lng: expectNumber(save.player.lng, "player.lng", version),
+    },
+  };
+  if (save.persistedCoins !== undefined) {
+    if (!Array.isArray(save.persistedCoins)) {
+      fail("persistedCoins", "an array", version);
+    }
+    state.persistedCoins = save.persistedCoins.map((entry, index) =>
+      validatePersistedEntry(entry, `persistedCoins[${index}]`, version)
+    );
+  }
+  if (save.inventoryCoins !== undefined) {
+    if (
+      !Array.isArray(save.inventoryCoins) ||
+      save.inventoryCoins.length > state.world.inventorySlots
+    ) {
+      fail("inventoryCoins", "an array with one entry per slot", version);
+    }
+    state.inventoryCoins = save.inventoryCoins.map((coin, index) =>
+      coin === null
+        ? null
+        : validateMemento(coin, `inventoryCoins[${index}]`, version)
+    );
+  }
+  if (save.activeSlot !== undefined) {
+    const slot = expectNumber(save.activeSlot, "activeSlot", version);
+    if (
+      !Number.isInteger(slot) || slot < 0 || slot >= state.world.inventorySlots
+    ) {
+      fail("activeSlot", "an inventory slot", version);
+    }
+    state.activeSlot = slot;
+  }
+  return state;
+}
+
+// Upgrades a parsed save of any known version to the current GameState shape,
+// one migration at a time. Throws SaveMigrationError instead of dropping data.
+export function migrateGameState(raw: unknown): GameState {
+  if (!isRecord(raw)) {
+    throw new SaveMigrationError("Save is not an object", null);
+  }
+  let version = raw.version ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new SaveMigrationError(`Unknown save version ${version}`, null);
+  }
+  if (version > CURRENT_SAVE_VERSION) {
+    throw new SaveMigrationError(
+      `Save version ${version} is newer than this game (${CURRENT_SAVE_VERSION})`,
+      version,
+    );
+  }
+  let save: RawSave = raw;
+  while (version < CURRENT_SAVE_VERSION) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new SaveMigrationError(
+        `No migration from save version ${version}`,
+        version,
+      );
+    }
+    try {
+      save = migration(save);
+    } catch (error) {
+      throw new SaveMigrationError(
+        `Migration from version ${version} failed: ${error}`,
+        version,
+      );
+    }
+    version++;
+  }
+  return validateGameState(save, version);
+}
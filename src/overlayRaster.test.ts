@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { mapPixel, SharedCellData } from "./grid.ts";
+import { hexRange } from "./hex.ts";
+import {
+  HexOverlayJob,
+  layoutHexOverlay,
+  OverlayCanvas,
+  packCells,
+  rasterizeHexOverlay,
+} from "./overlayRaster.ts";
+
+const grid = new SharedCellData({ lat: 0, lng: 0 });
+
+function job(cells: { q: number; r: number }[], zoom = 19): HexOverlayJob {
+  return {
+    zoom,
+    grid: { origin: grid.origin, size: grid.size, projection: grid.projection },
+    cells: packCells(cells),
+    styles: [{ stroke: "grey", lineWidth: 1 }],
+  };
+}
+
+Deno.test("packCells stores q, r pairs in order", () => {
+  assert.deepEqual(
+    Array.from(packCells([{ q: 1, r: -2 }, { q: -3, r: 4 }])),
+    [1, -2, -3, 4],
+  );
+});
+
+Deno.test("the layout's bounds hold every hex", () => {
+  const cells = hexRange({ q: 4, r: -7 }, 3);
+  const { bounds, polygons, width, height } = layoutHexOverlay(job(cells));
+  assert.equal(polygons.length, cells.length);
+  for (const { q, r } of cells) {
+    for (const { lat, lng } of grid.getCorners(q, r)) {
+      assert.ok(lat <= bounds.north && lat >= bounds.south);
+      assert.ok(lng <= bounds.east && lng >= bounds.west);
+    }
+  }
+  for (const polygon of polygons) {
+    assert.equal(polygon.length, 6);
+    for (const { x, y } of polygon) {
+      assert.ok(x >= -1e-6 && x <= width, `x ${x} outside ${width}`);
+      assert.ok(y >= -1e-6 && y <= height, `y ${y} outside ${height}`);
+    }
+  }
+});
+
+Deno.test("hexes are drawn at the map's scale for the zoom", () => {
+  const [hex] = layoutHexOverlay(job([{ q: 0, r: 0 }])).polygons;
+  const corners = grid.getCorners(0, 0);
+  const expected = mapPixel(corners[0], 19).x - mapPixel(corners[3], 19).x;
+  assert.ok(Math.abs(hex[0].x - hex[3].x - expected) < 1e-6);
+  // Zooming out one level halves the image
+  const near = layoutHexOverlay(job(hexRange({ q: 0, r: 0 }, 4)));
+  const far = layoutHexOverlay(job(hexRange({ q: 0, r: 0 }, 4), 18));
+  assert.ok(Math.abs(far.width - near.width / 2) <= 1);
+});
+
+Deno.test("any canvas can rasterize an overlay, with timings per step", async () => {
+  const calls: string[] = [];
+  const context = new Proxy({}, {
+    get: (_, name) => (..._args: unknown[]) => calls.push(String(name)),
+    set: () => true,
+  }) as OverlayCanvas["context"];
+  const image = new Blob(["png"]);
+  const cells = hexRange({ q: 0, r: 0 }, 1);
+  const response = await rasterizeHexOverlay(
+    { id: 7, job: job(cells) },
+    () => ({ context, encode: () => Promise.resolve(image) }),
+  );
+  assert.equal(response.id, 7);
+  assert.equal(response.image, image);
+  assert.deepEqual(response.bounds, layoutHexOverlay(job(cells)).bounds);
+  assert.deepEqual(Object.keys(response.timings), [
+    "bounds",
+    "canvas",
+    "draw",
+    "encode",
+  ]);
+  assert.equal(calls.filter((call) => call === "stroke").length, cells.length);
+});
@@ -0,0 +1,188 @@
+// Drawing hex overlays into an image, shared by the overlay worker and its
+// tests. Nothing here touches the DOM or Leaflet: hexes are placed with the
+// same Web Mercator pixels Leaflet uses, so the image lines up with the map.
+
+import {
+  GeoPoint,
+  GridProjection,
+  mapPixel,
+  PlanePoint,
+  SharedCellData,
+} from "./grid.ts";
+
+export interface HexStyle {
+  stroke: string;
+  lineWidth: number;
+  fill?: string;
+  // Multiplies the stroke and fill
+  opacity?: number;
+}
+
+export interface HexOverlayJob {
+  zoom: number;
+  grid: { origin: GeoPoint; size: number; projection: GridProjection };
+  // Flat q, r pairs, cheap to hand to the worker
+  cells: Int32Array;
+  // One style for every cell, or one per cell
+  styles: HexStyle[];
+}
+
+export interface LatLngBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface HexOverlayLayout {
+  bounds: LatLngBox;
+  width: number;
+  height: number;
+  // Hex corners in pixels from the image's north-west corner
+  polygons: PlanePoint[][];
+}
+
+// Time spent in each step of rasterizing an overlay, in ms
+export type OverlayTimings = Record<string, number>;
+
+export interface OverlayRequest {
+  id: number;
+  job: HexOverlayJob;
+}
+
+export interface OverlayResponse {
+  id: number;
+  image: Blob;
+  bounds: LatLngBox;
+  timings: OverlayTimings;
+}
+
+// Something to draw an overlay into and encode it from: an OffscreenCanvas,
+// or a page canvas where there is none
+export interface OverlayCanvas {
+  context: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+  encode(): Promise<Blob>;
+}
+
+export type OverlayCanvasFactory = (
+  width: number,
+  height: number,
+) => OverlayCanvas;
+
+export function offscreenCanvas(width: number, height: number): OverlayCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  return {
+    context: canvas.getContext("2d")!,
+    encode: () => canvas.convertToBlob(),
+  };
+}
+
+export function packCells(cells: { q: number; r: number }[]): Int32Array {
+  const packed = new Int32Array(cells.length * 2);
+  cells.forEach(({ q, r }, i) => {
+    packed[2 * i] = q;
+    packed[2 * i + 1] = r;
+  });
+  return packed;
+}
+
+export function layoutHexOverlay(job: HexOverlayJob): HexOverlayLayout {
+  const grid = new SharedCellData(
+    job.grid.origin,
+    job.grid.size,
+    job.grid.projection,
+  );
+  const corners: GeoPoint[][] = [];
+  const bounds: LatLngBox = {
+    north: -Infinity,
+    south: Infinity,
+    east: -Infinity,
+    west: Infinity,
+  };
+  for (let i = 0; i < job.cells.length; i += 2) {
+    const hex = grid.getCorners(job.cells[i], job.cells[i + 1]);
+    for (const { lat, lng } of hex) {
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.east = Math.max(bounds.east, lng);
+      bounds.west = Math.min(bounds.west, lng);
+    }
+    corners.push(hex);
+  }
+  const nw = mapPixel({ lat: bounds.north, lng: bounds.west }, job.zoom);
+  const se = mapPixel({ lat: bounds.south, lng: bounds.east }, job.zoom);
+  return {
+    bounds,
+    // A canvas needs at least one pixel each way
+    width: Math.max(1, Math.ceil(se.x - nw.x)),
+    height: Math.max(1, Math.ceil(se.y - nw.y)),
+    polygons: corners.map((hex) =>
+      hex.map((corner) => {
+        const pixel = mapPixel(corner, job.zoom);
+        return { x: pixel.x - nw.x, y: pixel.y - nw.y };
+      })
+    ),
+  };
+}
+
+export function drawHexOverlay(
+  ctx: OverlayCanvas["context"],
+  layout: HexOverlayLayout,
+  styles: HexStyle[],
+): void {
+  layout.polygons.forEach((polygon, i) => {
+    const style = styles.length === 1 ? styles[0] : styles[i];
+    ctx.globalAlpha = style.opacity ?? 1;
+    ctx.beginPath();
+    ctx.moveTo(polygon[0].x, polygon[0].y);
+    for (const point of polygon.slice(1)) ctx.lineTo(point.x, point.y);
+    ctx.closePath();
+    if (style.fill) {
+      ctx.fillStyle = style.fill;
+      ctx.fill();
+    }
+    ctx.strokeStyle = style.stroke;
+    ctx.lineWidth = style.lineWidth;
+    ctx.stroke();
+  });
+}
+
+const OVERLAY_MARKS = [
+  "create-hex-overlay-start",
+  "calculate-bounds-end",
+  "setup-canvas-end",
+  "draw-cells-end",
+  "create-hex-overlay-end",
+];
+
+// Runs in the overlay worker, or on the page if the worker cannot
+export async function rasterizeHexOverlay(
+  { id, job }: OverlayRequest,
+  createCanvas: OverlayCanvasFactory,
+): Promise<OverlayResponse> {
+  const start = performance.mark("create-hex-overlay-start");
+  const layout = layoutHexOverlay(job);
+  const bounds = performance.mark("calculate-bounds-end");
+
+  const canvas = createCanvas(layout.width, layout.height);
+  const setup = performance.mark("setup-canvas-end");
+
+  drawHexOverlay(canvas.context, layout, job.styles);
+  const draw = performance.mark("draw-cells-end");
+
+  const image = await canvas.encode();
+  const end = performance.mark("create-hex-overlay-end");
+  for (const mark of OVERLAY_MARKS) performance.clearMarks(mark);
+
+  return {
+    id,
+    image,
+    bounds: layout.bounds,
+    timings: {
+      bounds: bounds.startTime - start.startTime,
+      canvas: setup.startTime - bounds.startTime,
+      draw: draw.startTime - setup.startTime,
+      encode: end.startTime - draw.startTime,
+    },
+  };
+}
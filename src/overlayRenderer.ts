@@ -0,0 +1,239 @@
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+import type { GeoPoint } from "./grid.ts";
+import {
+  HexOverlayJob,
+  offscreenCanvas,
+  OverlayCanvas,
+  OverlayRequest,
+  OverlayResponse,
+  OverlayTimings,
+  rasterizeHexOverlay,
+} from "./overlayRaster.ts";
+
+// `timings` adds up the worker's steps; `total` also counts the wait for the
+// worker and for the image to load
+export type OverlayRenderedEventDetail = {
+  key: string;
+  cells: number;
+  timings: OverlayTimings;
+  total: number;
+};
+
+interface OverlayEntry {
+  // The latest request; responses to older ones are dropped
+  requestId: number;
+  // Where the overlay should be centered, once moved
+  center: GeoPoint;
+  moved: boolean;
+  // Set when the overlay was drawn for another zoom and needs redrawing
+  stale: boolean;
+  layer: leaflet.ImageOverlay | null;
+  url: string | null;
+  // The last image that loaded, kept on the map until `layer` replaces it
+  previous: { layer: leaflet.ImageOverlay; url: string } | null;
+}
+
+interface PendingRequest {
+  key: string;
+  map: leaflet.Map;
+  job: HexOverlayJob;
+  requestedAt: number;
+}
+
+// Hex overlays rasterized in a worker and shown as image overlays. Each one
+// is double-buffered: the image on the map stays until its replacement has
+// loaded, so re-rendering never leaves a gap. Without a working worker the
+// overlays are drawn on the page instead.
+export class OverlayRenderer {
+  private worker: Worker | null = null;
+  private entries = new Map<string, OverlayEntry>();
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+
+  constructor(private eventBus: EventTarget) {
+    if (typeof OffscreenCanvas === "undefined") return;
+    this.worker = new Worker(
+      new URL("./overlayWorker.ts", import.meta.url),
+      { type: "module" },
+    );
+    this.worker.addEventListener("message", (event) => {
+      this.receive((event as MessageEvent<OverlayResponse>).data);
+    });
+    this.worker.addEventListener("error", (event) => {
+      console.error("Overlay worker failed, drawing on the page:", event);
+      this.worker?.terminate();
+      this.worker = null;
+      for (const [id, { job }] of this.pending) this.rasterize({ id, job });
+    });
+  }
+
+  // Where an overlay is, or will be once drawn; undefined if it needs drawing
+  center(key: string): GeoPoint | undefined {
+    const entry = this.entries.get(key);
+    return entry && !entry.stale ? entry.center : undefined;
+  }
+
+  // `center` is where the job is centered, for later moves
+  render(
+    key: string,
+    job: HexOverlayJob,
+    center: GeoPoint,
+    map: leaflet.Map,
+  ): void {
+    if (job.cells.length === 0) return;
+    const id = this.nextId++;
+    const entry = this.entries.get(key);
+    this.entries.set(key, {
+      requestId: id,
+      center,
+      moved: false,
+      stale: false,
+      layer: entry?.layer ?? null,
+      url: entry?.url ?? null,
+      previous: entry?.previous ?? null,
+    });
+    this.pending.set(id, { key, map, job, requestedAt: performance.now() });
+    this.rasterize({ id, job });
+  }
+
+  // Slides an overlay, or the one being drawn, so it is centered on `center`
+  move(key: string, center: GeoPoint): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.center = center;
+    entry.moved = true;
+    for (const layer of [entry.layer, entry.previous?.layer]) {
+      layer?.setBounds(centeredOn(layer.getBounds(), center));
+    }
+  }
+
+  // Keeps the overlays on the map until they are redrawn
+  invalidate(): void {
+    for (const entry of this.entries.values()) entry.stale = true;
+  }
+
+  clear(map: leaflet.Map): void {
+    for (const entry of this.entries.values()) {
+      discard(entry.layer, entry.url, map);
+      discard(entry.previous?.layer ?? null, entry.previous?.url ?? null, map);
+    }
+    this.entries.clear();
+    this.pending.clear();
+  }
+
+  // Kept in `pending` until the response arrives, so the worker's jobs can be
+  // redrawn on the page if it fails
+  private rasterize(request: OverlayRequest): void {
+    if (this.worker) {
+      this.worker.postMessage(request);
+      return;
+    }
+    const canvas = typeof OffscreenCanvas === "undefined"
+      ? pageCanvas
+      : offscreenCanvas;
+    rasterizeHexOverlay(request, canvas).then(
+      (response) => this.receive(response),
+      (error) => {
+        this.pending.delete(request.id);
+        console.error("Failed to draw overlay:", error);
+      },
+    );
+  }
+
+  private receive({ id, image, bounds, timings }: OverlayResponse): void {
+    const request = this.pending.get(id);
+    this.pending.delete(id);
+    const entry = request && this.entries.get(request.key);
+    if (!request || entry?.requestId !== id) return;
+
+    const url = URL.createObjectURL(image);
+    let latLngBounds = leaflet.latLngBounds(
+      [bounds.south, bounds.west],
+      [bounds.north, bounds.east],
+    );
+    if (entry.moved) latLngBounds = centeredOn(latLngBounds, entry.center);
+    const layer = leaflet.imageOverlay(url, latLngBounds, {
+      interactive: false,
+    });
+    if (entry.previous) {
+      // The image before this one never loaded; keep the last one that did
+      discard(entry.layer, entry.url, request.map);
+    } else if (entry.layer && entry.url) {
+      entry.previous = { layer: entry.layer, url: entry.url };
+    }
+    entry.layer = layer;
+    entry.url = url;
+    // Ignored once the overlay has been cleared or replaced
+    const isCurrent = () =>
+      this.entries.get(request.key) === entry && entry.layer === layer;
+    layer.once("load", () => {
+      if (!isCurrent()) return;
+      discard(
+        entry.previous?.layer ?? null,
+        entry.previous?.url ?? null,
+        request.map,
+      );
+      entry.previous = null;
+      const detail: OverlayRenderedEventDetail = {
+        key: request.key,
+        cells: request.job.cells.length / 2,
+        timings,
+        total: performance.now() - request.requestedAt,
+      };
+      this.eventBus.dispatchEvent(
+        new CustomEvent("overlay-rendered", { detail }),
+      );
+    });
+    layer.once("error", () => {
+      discard(layer, url, request.map);
+      if (!isCurrent()) return;
+      console.error(`Overlay "${request.key}" failed to load`);
+      entry.layer = entry.previous?.layer ?? null;
+      entry.url = entry.previous?.url ?? null;
+      entry.previous = null;
+      // Drawn again on the next update
+      entry.stale = true;
+    });
+    layer.addTo(request.map);
+  }
+}
+
+function centeredOn(
+  bounds: leaflet.LatLngBounds,
+  center: GeoPoint,
+): leaflet.LatLngBounds {
+  const current = bounds.getCenter();
+  const deltaLat = center.lat - current.lat;
+  const deltaLng = center.lng - current.lng;
+  const sw = bounds.getSouthWest();
+  const ne = bounds.getNorthEast();
+  return leaflet.latLngBounds(
+    leaflet.latLng(sw.lat + deltaLat, sw.lng + deltaLng),
+    leaflet.latLng(ne.lat + deltaLat, ne.lng + deltaLng),
+  );
+}
+
+function discard(
+  layer: leaflet.ImageOverlay | null,
+  url: string | null,
+  map: leaflet.Map,
+): void {
+  if (layer) map.removeLayer(layer);
+  if (url) URL.revokeObjectURL(url);
+}
+
+function pageCanvas(width: number, height: number): OverlayCanvas {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return {
+    context: canvas.getContext("2d")!,
+    encode: () =>
+      new Promise((resolve, reject) =>
+        canvas.toBlob((blob) =>
+          blob ? resolve(blob) : reject(new Error("Could not encode overlay"))
+        )
+      ),
+  };
+}
@@ -0,0 +1,16 @@
+// Rasterizes hex overlays off the main thread, so panning does not stall
+// while hundreds of hexes are drawn and encoded; see OverlayRenderer
+import {
+  offscreenCanvas,
+  OverlayRequest,
+  rasterizeHexOverlay,
+} from "./overlayRaster.ts";
+
+addEventListener("message", (event) => {
+  const request = (event as MessageEvent<OverlayRequest>).data;
+  rasterizeHexOverlay(request, offscreenCanvas).then(
+    (response) => postMessage(response),
+    // Surfaces as an error event on the page's Worker
+    (error) => reportError(error),
+  );
+});
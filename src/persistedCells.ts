@@ -0,0 +1,260 @@
+import type { CoinMemento } from "./generation.ts";
+import { HexCoord, hexDistance } from "./hex.ts";
+import type { PersistedCoinEntry } from "./serialization.ts";
+import { regionCenter, regionOf } from "./storage.ts";
+
+export type PersistedRegionSource = (
+  region: string,
+) => Promise<PersistedCoinEntry[]>;
+
+export interface PersistChanges {
+  entries: PersistedCoinEntry[];
+  // Cells to drop from storage, such as expired tombstones
+  removed: string[];
+  replace: boolean;
+}
+
+// Decides when the cell behind a tombstone grows a coin again
+export type RegrowthRule = (cellId: string, emptiedAt: number) => number;
+
+// The coin a cell emptied at `emptiedAt` grows back, or null if it grows none
+export type RegrownCoin = (
+  cellId: string,
+  emptiedAt: number,
+) => CoinMemento | null;
+
+// Cells the player has changed, keyed by cell id. A null memento is a
+// tombstone: the cell was emptied and the generator must not respawn it until
+// the tombstone expires.
+export class PersistedCells {
+  // Persisted cells grouped by storage region; see regionOf
+  private regions: Map<string, Map<string, PersistedCoinEntry>> = new Map();
+  private loadedRegions: Set<string> = new Set();
+  private pendingRegions: Map<string, Promise<void>> = new Map();
+  private regionSource: PersistedRegionSource | null = null;
+  private stats = { cells: 0, coins: 0 };
+  private anchors: Map<string, HexCoord> = new Map();
+  // Cells changed since the last save, so storage can be updated incrementally
+  private dirtyCells: Set<string> = new Set();
+  private replacePending = false;
+  private regrowth: RegrowthRule = () => Infinity;
+  private regrownCoin: RegrownCoin = () => null;
+
+  setRegrowth(rule: RegrowthRule, regrownCoin: RegrownCoin): void {
+    this.regrowth = rule;
+    this.regrownCoin = regrownCoin;
+  }
+
+  // Expired tombstones read as the coin they grow back, even before they are
+  // collected
+  get(
+    cellId: string,
+    now: number = Date.now(),
+  ): CoinMemento | null | undefined {
+    const entry = this.regions.get(regionOf(cellId))?.get(cellId);
+    if (entry && this.isExpired(entry, now)) {
+      return this.regrownCoin(cellId, entry.emptiedAt ?? 0) ?? undefined;
+    }
+    return entry?.memento;
+  }
+
+  // A null memento empties the cell as of `emptiedAt`
+  set(
+    cellId: string,
+    memento: CoinMemento | null,
+    emptiedAt: number = Date.now(),
+  ): void {
+    const region = regionOf(cellId);
+    let cells = this.regions.get(region);
+    if (!cells) {
+      cells = new Map();
+      this.regions.set(region, cells);
+    }
+    const previous = cells.get(cellId);
+    if (previous === undefined) this.stats.cells++;
+    this.stats.coins += (memento ? 1 : 0) - (previous?.memento ? 1 : 0);
+    cells.set(
+      cellId,
+      memento ? { cellId, memento } : {
+        cellId,
+        memento: null,
+        emptiedAt,
+      },
+    );
+    this.dirtyCells.add(cellId);
+  }
+
+  private isExpired(entry: PersistedCoinEntry, now: number): boolean {
+    return entry.memento === null &&
+      this.regrowth(entry.cellId, entry.emptiedAt ?? 0) <= now;
+  }
+
+  // Replaces expired tombstones in the loaded regions with the coins their
+  // cells grow back. Cells that grow none are dropped, so the save stops
+  // carrying them. Returns the cells that regrew.
+  collectExpired(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+    for (const cells of this.regions.values()) {
+      for (const entry of cells.values()) {
+        if (!this.isExpired(entry, now)) continue;
+        const memento = this.regrownCoin(entry.cellId, entry.emptiedAt ?? 0);
+        if (memento) {
+          cells.set(entry.cellId, { cellId: entry.cellId, memento });
+          this.stats.coins++;
+        } else {
+          cells.delete(entry.cellId);
+          this.stats.cells--;
+        }
+        this.dirtyCells.add(entry.cellId);
+        expired.push(entry.cellId);
+      }
+    }
+    return expired;
+  }
+
+  // Returns the persisted cells to write since the last call. `replace` means
+  // the entries are the complete set and storage should drop anything else.
+  takeChanges(): PersistChanges {
+    const replace = this.replacePending;
+    const entries: PersistedCoinEntry[] = [];
+    const removed: string[] = [];
+    if (replace) {
+      entries.push(...this.getEntries());
+    } else {
+      for (const cellId of this.dirtyCells) {
+        const entry = this.regions.get(regionOf(cellId))?.get(cellId);
+        if (entry) {
+          entries.push({ ...entry });
+        } else {
+          removed.push(cellId);
+        }
+      }
+    }
+    this.dirtyCells.clear();
+    this.replacePending = false;
+    return { entries, removed, replace };
+  }
+
+  // Puts changes back after a failed write so the next save retries them.
+  // Their region may have been evicted during the write, so the entries
+  // themselves go back unless the cell has changed again since.
+  requeueChanges(changes: PersistChanges): void {
+    if (changes.replace) this.replacePending = true;
+    for (const entry of changes.entries) {
+      if (this.dirtyCells.has(entry.cellId)) continue;
+      const region = regionOf(entry.cellId);
+      let cells = this.regions.get(region);
+      if (!cells) {
+        cells = new Map();
+        this.regions.set(region, cells);
+      }
+      if (!cells.has(entry.cellId)) cells.set(entry.cellId, { ...entry });
+      this.dirtyCells.add(entry.cellId);
+    }
+    for (const cellId of changes.removed) this.dirtyCells.add(cellId);
+  }
+
+  // Totals across the whole save, including regions that are not loaded
+  getStats(): { cells: number; coins: number } {
+    return { ...this.stats };
+  }
+
+  // Only covers the regions currently in memory
+  getEntries(): PersistedCoinEntry[] {
+    const entries: PersistedCoinEntry[] = [];
+    for (const cells of this.regions.values()) {
+      for (const entry of cells.values()) entries.push({ ...entry });
+    }
+    return entries;
+  }
+
+  private reset(): void {
+    this.regions.clear();
+    this.loadedRegions.clear();
+    this.pendingRegions.clear();
+    this.dirtyCells.clear();
+    this.regionSource = null;
+    this.stats = { cells: 0, coins: 0 };
+  }
+
+  // Forgets every cell; the next save replaces whatever storage holds
+  clear(): void {
+    this.reset();
+    this.replacePending = true;
+  }
+
+  // Holds the complete set of persisted cells in memory
+  setEntries(entries: PersistedCoinEntry[]): void {
+    this.reset();
+    for (const e of entries) {
+      this.set(e.cellId, e.memento, e.emptiedAt ?? 0);
+      this.loadedRegions.add(regionOf(e.cellId));
+    }
+    this.dirtyCells.clear();
+    this.replacePending = true;
+  }
+
+  // Loads persisted cells region by region as the player explores, and lets
+  // far-away regions be evicted again
+  setSource(
+    source: PersistedRegionSource,
+    stats: { cells: number; coins: number },
+  ): void {
+    this.reset();
+    this.regionSource = source;
+    this.stats = { ...stats };
+    this.replacePending = false;
+  }
+
+  isRegionReady(region: string): boolean {
+    return !this.regionSource || this.loadedRegions.has(region);
+  }
+
+  async ensureRegionsLoaded(regions: Set<string>): Promise<void> {
+    const source = this.regionSource;
+    if (!source) return;
+    const loads = Array.from(regions, (region) => {
+      if (this.loadedRegions.has(region)) return Promise.resolve();
+      let pending = this.pendingRegions.get(region);
+      if (!pending) {
+        pending = source(region).then((entries) => {
+          if (this.regionSource !== source) return;
+          const cells = this.regions.get(region) ?? new Map();
+          for (const e of entries) {
+            if (!cells.has(e.cellId)) cells.set(e.cellId, { ...e });
+          }
+          this.regions.set(region, cells);
+          this.loadedRegions.add(region);
+        }).finally(() => this.pendingRegions.delete(region));
+        this.pendingRegions.set(region, pending);
+      }
+      return pending;
+    });
+    for (const result of await Promise.allSettled(loads)) {
+      if (result.status === "rejected") {
+        console.error("Failed to load persisted region:", result.reason);
+      }
+    }
+  }
+
+  setAnchor(name: "player" | "camera", coord: HexCoord): void {
+    this.anchors.set(name, coord);
+  }
+
+  // Regions with unsaved changes stay in memory until they have been written
+  evictFarRegions(keepRadius: number): void {
+    if (!this.regionSource || this.replacePending) return;
+    const dirtyRegions = new Set(Array.from(this.dirtyCells, regionOf));
+    for (const region of this.loadedRegions) {
+      if (dirtyRegions.has(region)) continue;
+      const center = regionCenter(region);
+      const isNear = Array.from(this.anchors.values()).some((anchor) =>
+        hexDistance(anchor, center) <= keepRadius
+      );
+      if (!isNear) {
+        this.loadedRegions.delete(region);
+        this.regions.delete(region);
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { Inventory, InventoryChangedEventDetail } from "./player.ts";
+import { coinAt } from "./testCoins.ts";
+
+const coin = (value: number) => coinAt(value, 0, value);
+
+function setup(capacity: number) {
+  const eventBus = new EventTarget();
+  const changes: InventoryChangedEventDetail[] = [];
+  eventBus.addEventListener("inventory-changed", (event) => {
+    changes.push((event as CustomEvent<InventoryChangedEventDetail>).detail);
+  });
+  return { inventory: new Inventory(eventBus, capacity), changes };
+}
+
+const values = (inventory: Inventory) =>
+  inventory.slots.map((slot) => slot?.value ?? null);
+
+Deno.test("the classic inventory holds a single coin", () => {
+  const { inventory, changes } = setup(1);
+  assert.equal(inventory.capacity, 1);
+  assert.equal(inventory.swapItem(coin(3)), null);
+  assert.equal(inventory.firstFreeSlot(), null);
+  assert.equal(inventory.removeItem()?.value, 3);
+  assert.deepEqual(changes, [
+    { slots: [0], activeSlot: 0 },
+    { slots: [0], activeSlot: 0 },
+  ]);
+});
+
+Deno.test("slots are filled, selected and emptied independently", () => {
+  const { inventory, changes } = setup(3);
+  inventory.swapItem(coin(1));
+  inventory.swapItem(coin(2), 2);
+  assert.deepEqual(values(inventory), [1, null, 2]);
+  assert.equal(inventory.firstFreeSlot(), 1);
+
+  inventory.select(2);
+  assert.equal(inventory.coin?.value, 2);
+  assert.deepEqual(changes.at(-1), { slots: [], activeSlot: 2 });
+  assert.equal(inventory.removeItem(0)?.value, 1);
+  assert.equal(inventory.hasItem(0), false);
+  assert.equal(inventory.hasItem(), true);
+  assert.throws(() => inventory.select(3), RangeError);
+});
+
+Deno.test("moving a coin shifts the others and keeps the active coin", () => {
+  const { inventory, changes } = setup(4);
+  [1, 2, 3, 4].forEach((value, slot) => inventory.swapItem(coin(value), slot));
+  inventory.select(1);
+
+  inventory.move(0, 2);
+  assert.deepEqual(values(inventory), [2, 3, 1, 4]);
+  assert.equal(inventory.coin?.value, 2);
+  assert.deepEqual(changes.at(-1), { slots: [0, 1, 2], activeSlot: 0 });
+
+  inventory.move(0, 3);
+  assert.deepEqual(values(inventory), [3, 1, 4, 2]);
+  assert.equal(inventory.activeSlot, 3);
+});
+
+Deno.test("clearing can change the number of slots", () => {
+  const { inventory } = setup(1);
+  inventory.swapItem(coin(5));
+  inventory.clear(3);
+  assert.deepEqual(values(inventory), [null, null, null]);
+  assert.equal(inventory.activeSlot, 0);
+});
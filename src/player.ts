@@ -1,49 +1,127 @@
-import { LatLng } from "leaflet";
 import { Coin } from "./generation.ts";
+import { GeoPoint } from "./grid.ts";
 
 export interface PlayerRadius {
-  position: LatLng;
+  position: GeoPoint;
   reach: number;
 }
 
+// `slots` are the indices whose coin changed; `activeSlot` is the slot after
+// the change
+export type InventoryChangedEventDetail = {
+  slots: number[];
+  activeSlot: number;
+};
+
+// A fixed number of slots, each holding a coin or nothing. The active slot is
+// the one the player crafts with, places from and swaps into by default.
 export class Inventory {
+  private items: (Coin | null)[];
+  private active = 0;
+
   public constructor(
-    private item: Coin | null = null,
     private eventBus: EventTarget,
-  ) {}
+    capacity: number = 1,
+  ) {
+    this.items = new Array(capacity).fill(null);
+  }
+
+  private changed(slots: number[]): void {
+    this.eventBus.dispatchEvent(
+      new CustomEvent<InventoryChangedEventDetail>("inventory-changed", {
+        detail: { slots, activeSlot: this.active },
+      }),
+    );
+  }
 
-  public hasItem() {
-    return this.item != null;
+  private checkSlot(slot: number): void {
+    if (!Number.isInteger(slot) || slot < 0 || slot >= this.items.length) {
+      throw new RangeError(`No inventory slot ${slot}`);
+    }
   }
 
+  public get capacity(): number {
+    return this.items.length;
+  }
+
+  public get activeSlot(): number {
+    return this.active;
+  }
+
+  public get slots(): readonly (Coin | null)[] {
+    return this.items;
+  }
+
+  // The coin in the active slot
   public get coin(): Coin | null {
-    return this.item;
+    return this.items[this.active];
   }
 
-  public swapItem(newItem: Coin): Coin | null {
-    const oldItem = this.item;
-    this.item = newItem;
-    this.eventBus.dispatchEvent(
-      new CustomEvent("inventory-changed", {
-        detail: { newItem: newItem, oldItem: oldItem },
-      }),
-    );
+  public coinIn(slot: number): Coin | null {
+    this.checkSlot(slot);
+    return this.items[slot];
+  }
+
+  public hasItem(slot: number = this.active) {
+    return this.coinIn(slot) != null;
+  }
+
+  public firstFreeSlot(): number | null {
+    const slot = this.items.indexOf(null);
+    return slot === -1 ? null : slot;
+  }
+
+  public select(slot: number): void {
+    this.checkSlot(slot);
+    if (slot === this.active) return;
+    this.active = slot;
+    this.changed([]);
+  }
+
+  // Moves a coin to another slot, shifting the ones in between. The active
+  // slot follows the coin it held.
+  public move(from: number, to: number): void {
+    this.checkSlot(from);
+    this.checkSlot(to);
+    if (from === to) return;
+    const [moved] = this.items.splice(from, 1);
+    this.items.splice(to, 0, moved);
+    if (this.active === from) {
+      this.active = to;
+    } else if (from < this.active && this.active <= to) {
+      this.active--;
+    } else if (to <= this.active && this.active < from) {
+      this.active++;
+    }
+    const low = Math.min(from, to);
+    const high = Math.max(from, to);
+    this.changed(Array.from({ length: high - low + 1 }, (_, i) => low + i));
+  }
+
+  public swapItem(newItem: Coin, slot: number = this.active): Coin | null {
+    this.checkSlot(slot);
+    const oldItem = this.items[slot];
+    this.items[slot] = newItem;
+    this.changed([slot]);
     return oldItem;
   }
 
-  public removeItem(): Coin | null {
-    const item = this.item;
-    this.item = null;
-    this.eventBus.dispatchEvent(
-      new CustomEvent("inventory-changed", { detail: { item: null } }),
-    );
+  public removeItem(slot: number = this.active): Coin | null {
+    this.checkSlot(slot);
+    const item = this.items[slot];
+    this.items[slot] = null;
+    this.changed([slot]);
     return item;
   }
 
-  public clear(): void {
-    this.item = null;
-    this.eventBus.dispatchEvent(
-      new CustomEvent("inventory-changed", { detail: { item: null } }),
+  // Empties every slot; a new capacity only takes effect here, between games
+  public clear(capacity: number = this.items.length): void {
+    const slots = Array.from(
+      { length: Math.max(capacity, this.items.length) },
+      (_, i) => i,
     );
+    this.items = new Array(capacity).fill(null);
+    this.active = 0;
+    this.changed(slots);
   }
 }
@@ -1,35 +1,46 @@
 // @deno-types="npm:@types/leaflet"
 import leaflet from "leaflet";
+import { GpsFix, PositionFilter } from "./gpsFilter.ts";
+import { distanceMeters, GeoPoint } from "./grid.ts";
+import { HexCoord, HexDirection, hexLine, hexNeighbor } from "./hex.ts";
 import { PlayerRadius } from "./player.ts";
+import type { TrackPoint } from "./tracks.ts";
 import { createMovementButtons } from "./ui.ts";
 import { World } from "./world.ts";
 
-export type Direction =
-  | "north"
-  | "northeast"
-  | "east"
-  | "southeast"
-  | "south"
-  | "southwest"
-  | "west"
-  | "northwest"
-  | "none";
-
-const directionDeltas: Record<Direction, { dq: number; dr: number }> = {
-  north: { dq: 0, dr: 1 },
-  northeast: { dq: 1, dr: 0 },
-  east: { dq: 1, dr: 0 },
-  southeast: { dq: 1, dr: -1 },
-  south: { dq: 0, dr: -1 },
-  southwest: { dq: -1, dr: 0 },
-  west: { dq: -1, dr: 0 },
-  northwest: { dq: -1, dr: 1 },
-  none: { dq: 0, dr: 0 },
+const GPS_TIMEOUT_MS = 20000;
+// Inaccurate fixes in a row before the player is told why they are not moving
+const INACCURATE_FIXES_BEFORE_WARNING = 3;
+
+export type GpsInaccurateEventDetail = {
+  accuracy: number;
+  maxAccuracy: number;
 };
 
+function describeGeolocationError(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return "Location access was denied.";
+    case error.POSITION_UNAVAILABLE:
+      return "Your location is currently unavailable.";
+    case error.TIMEOUT:
+      return "Timed out waiting for your location.";
+    default:
+      return error.message || "Your location could not be determined.";
+  }
+}
+
+// "replay" plays back a recorded track; see TrackPlayer
+export type MovementMode = "gps" | "ui" | "replay";
+
 export class Positioning {
-  private mode: "gps" | "ui" = "gps";
+  private mode: MovementMode = "gps";
   private watchId: number | null = null;
+  private filter = new PositionFilter();
+  // Cells still to walk through on a click-to-travel trip
+  private travelPath: HexCoord[] = [];
+  private travelTimer: ReturnType<typeof setTimeout> | null = null;
+  private routeLine: leaflet.Polyline | null = null;
   public playerMarker: leaflet.Marker;
 
   constructor(
@@ -38,7 +49,9 @@ export class Positioning {
     private cameraRadius: PlayerRadius,
     private map: leaflet.Map,
     eventBus: EventTarget,
-    initialMode: "gps" | "ui" = "gps",
+    // Hex steps around the player to keep loaded
+    private getLoadRadius: () => number,
+    initialMode: MovementMode = "gps",
   ) {
     this.playerMarker = leaflet.marker(this.playerRadius.position);
     this.playerMarker.bindTooltip("That's you!");
@@ -48,21 +61,45 @@ export class Positioning {
     eventBus.addEventListener("move-player", (event) => {
       if (this.mode !== "ui") return;
       const detail = (event as CustomEvent).detail;
-      const direction = detail.direction as Direction;
+      const direction = detail.direction as HexDirection;
+      // Manual input takes over from a trip in progress
+      this.cancelTravel();
       this.move(direction);
       this.onMove(this.playerRadius.position, eventBus);
     });
 
+    eventBus.addEventListener("replay-position", (event) => {
+      if (this.mode !== "replay") return;
+      const point = (event as CustomEvent).detail as TrackPoint;
+      if (point.accuracy === undefined) {
+        this.onMove(leaflet.latLng(point.lat, point.lng), eventBus);
+      } else {
+        this.onFix({ ...point, accuracy: point.accuracy }, eventBus);
+      }
+    });
+
     map.on("move", () => {
-      this.cameraRadius.position =
-        this.world.getCellAtLatLng(this.map.getCenter()).center;
+      const cameraCell = this.world.getCellAtLatLng(this.map.getCenter());
+      this.cameraRadius.position = cameraCell.center;
+      this.world.setAnchor("camera", cameraCell.coord);
+      this.world.renderHexes(this.map, this.playerRadius, this.cameraRadius);
+    });
+
+    // The camera sees further when zoomed out, and the world draws less detail
+    map.on("zoomend", () => {
+      this.cameraRadius.reach = this.map.getBounds().getNorthEast().distanceTo(
+        this.map.getCenter(),
+      );
+      this.world.setZoom(this.map.getZoom(), this.map);
+      // Markers shown again were not kept up to date while hidden
+      this.world.updateCoinReaches(this.playerRadius);
       this.world.renderHexes(this.map, this.playerRadius, this.cameraRadius);
     });
 
     this.onMove(this.playerRadius.position, eventBus);
   }
 
-  get position(): leaflet.LatLng {
+  get position(): GeoPoint {
     return this.playerRadius.position;
   }
 
@@ -71,20 +108,58 @@ export class Positioning {
   }
 
   // Move to adjacent cell in the specified direction
-  private move(direction: Direction): void {
+  private move(direction: HexDirection): void {
     const currentCell = this.world.getCellAtLatLng(this.playerRadius.position);
-    const delta = directionDeltas[direction];
-    const newCell = this.world.getCell(
-      currentCell.q + delta.dq,
-      currentCell.r + delta.dr,
-    );
-    this.playerRadius.position = newCell.center;
+    const { q, r } = hexNeighbor(currentCell.coord, direction);
+    this.playerRadius.position = this.world.getCell(q, r).center;
+  }
+
+  // Walks to a cell one hex step at a time along a shortest path, with the
+  // rest of the route drawn on the map
+  travelTo(target: HexCoord, stepMs: number, eventBus: EventTarget): void {
+    this.cancelTravel();
+    const start = this.world.getCellAtLatLng(this.playerRadius.position).coord;
+    this.travelPath = hexLine(start, target).slice(1);
+    if (this.travelPath.length === 0) return;
+    this.routeLine = leaflet.polyline([], {
+      color: "#1e88e5",
+      weight: 4,
+      dashArray: "6 8",
+      interactive: false,
+    }).addTo(this.map);
+    this.drawRoute();
+
+    const step = () => {
+      const next = this.travelPath.shift();
+      if (!next) return this.cancelTravel();
+      this.playerRadius.position = this.world.getCell(next.q, next.r).center;
+      this.onMove(this.playerRadius.position, eventBus);
+      if (this.travelPath.length === 0) return this.cancelTravel();
+      this.drawRoute();
+      this.travelTimer = setTimeout(step, stepMs);
+    };
+    this.travelTimer = setTimeout(step, stepMs);
+  }
+
+  cancelTravel(): void {
+    if (this.travelTimer !== null) clearTimeout(this.travelTimer);
+    this.travelTimer = null;
+    this.travelPath = [];
+    this.routeLine?.remove();
+    this.routeLine = null;
   }
 
-  private onMove(position: leaflet.LatLng, eventBus: EventTarget): void {
+  private drawRoute(): void {
+    this.routeLine?.setLatLngs([
+      this.playerRadius.position,
+      ...this.travelPath.map(({ q, r }) => this.world.getCell(q, r).center),
+    ]);
+  }
+
+  private onMove(position: GeoPoint, eventBus: EventTarget): void {
     const oldPosition = this.position;
     const cell = this.world.getCellAtLatLng(position);
-    if (this.playerRadius.position.distanceTo(cell.center) > 1) {
+    if (distanceMeters(this.playerRadius.position, cell.center) > 1) {
       this.map.panTo(cell.center);
       this.playerRadius.position = cell.center;
     }
@@ -95,11 +170,11 @@ export class Positioning {
     );
     this.world.updateCellsAround(
       coord,
-      25,
+      this.getLoadRadius(),
       this.map,
       this.playerRadius,
       eventBus,
-    );
+    ).catch((error) => console.error("Failed to load cells:", error));
     this.world.renderHexes(this.map, this.playerRadius, this.cameraRadius);
     eventBus.dispatchEvent(
       new CustomEvent("player-moved", {
@@ -108,8 +183,28 @@ export class Positioning {
     );
   }
 
-  setMode(mode: "gps" | "ui", eventBus: EventTarget): void {
+  // Raw GPS fixes only move the player once the filter accepts them
+  private onFix(fix: GpsFix, eventBus: EventTarget): void {
+    const result = this.filter.push(fix);
+    if (
+      !result.accepted && result.reason === "inaccurate" &&
+      this.filter.inaccurateStreak >= INACCURATE_FIXES_BEFORE_WARNING
+    ) {
+      const detail: GpsInaccurateEventDetail = {
+        accuracy: fix.accuracy,
+        maxAccuracy: this.filter.maxAccuracy,
+      };
+      eventBus.dispatchEvent(new CustomEvent("gps-inaccurate", { detail }));
+    }
+    if (!result.accepted) return;
+    const { lat, lng } = result.position;
+    this.onMove(leaflet.latLng(lat, lng), eventBus);
+  }
+
+  setMode(mode: MovementMode, eventBus: EventTarget): void {
     this.mode = mode;
+    this.filter.reset();
+    this.cancelTravel();
     if (mode === "ui") {
       this.stopGPS();
       this.playerMarker.bindPopup(createMovementButtons(eventBus));
@@ -117,11 +212,15 @@ export class Positioning {
     } else {
       this.playerMarker.closePopup();
       this.playerMarker.unbindPopup();
-      this.startGPS(eventBus);
+      if (mode === "gps") {
+        this.startGPS(eventBus);
+      } else {
+        this.stopGPS();
+      }
     }
   }
 
-  getMode(): "gps" | "ui" {
+  getMode(): MovementMode {
     return this.mode;
   }
 
@@ -129,13 +228,31 @@ export class Positioning {
     if (this.watchId) return;
     this.watchId = navigator.geolocation.watchPosition(
       (pos) => {
-        this.onMove(
-          leaflet.latLng(pos.coords.latitude, pos.coords.longitude),
-          eventBus,
+        const fix: GpsFix = {
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp,
+        };
+        // Raw fixes, so sessions can be recorded for replay
+        eventBus.dispatchEvent(
+          new CustomEvent("gps-position", { detail: fix }),
+        );
+        this.onFix(fix, eventBus);
+      },
+      (error) => {
+        // A denied permission is final; other errors may clear up by themselves
+        if (error.code === error.PERMISSION_DENIED) this.stopGPS();
+        eventBus.dispatchEvent(
+          new CustomEvent("gps-error", {
+            detail: {
+              code: error.code,
+              message: describeGeolocationError(error),
+            },
+          }),
         );
       },
-      null,
-      { enableHighAccuracy: true },
+      { enableHighAccuracy: true, timeout: GPS_TIMEOUT_MS },
     );
   }
 
@@ -146,7 +263,8 @@ export class Positioning {
     }
   }
 
-  resetTo(position: leaflet.LatLng, eventBus: EventTarget): void {
+  resetTo(position: GeoPoint, eventBus: EventTarget): void {
+    this.cancelTravel();
     this.onMove(position, eventBus);
     if (this.mode === "gps") {
       this.stopGPS();
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import type { Coin } from "./generation.ts";
+import {
+  BUILT_IN_RECIPES,
+  PAIR_RECIPE,
+  Recipe,
+  RecipeRegistry,
+} from "./recipes.ts";
+import { coinAt } from "./testCoins.ts";
+
+// Ids and values of the recipes that apply
+function crafts(held: Coin, target: Coin, neighbors: Coin[] = []) {
+  return new RecipeRegistry(BUILT_IN_RECIPES)
+    .options(held, target, { neighbors })
+    .flatMap(({ recipe, output }) =>
+      typeof output === "string" ? [] : [[recipe.id, output.value]]
+    );
+}
+
+Deno.test("equal plain coins craft into their sum", () => {
+  assert.deepEqual(crafts(coinAt(0, 0, 4), coinAt(1, 0, 4)), [["pair", 8]]);
+  assert.equal(
+    PAIR_RECIPE.match(coinAt(0, 0, 2), coinAt(1, 0, 4), { neighbors: [] }),
+    "Values differ (2 ≠ 4)",
+  );
+});
+
+Deno.test("close values merge with a loss", () => {
+  assert.deepEqual(crafts(coinAt(0, 0, 5), coinAt(1, 0, 3)), [
+    ["uneven-merge", 6],
+  ]);
+  assert.deepEqual(crafts(coinAt(0, 0, 2), coinAt(1, 0, 4)), []);
+});
+
+Deno.test("a third equal coin next to the target makes a trio", () => {
+  const held = coinAt(5, 5, 4);
+  const target = coinAt(0, 0, 4);
+  assert.deepEqual(crafts(held, target, [coinAt(1, 0, 2), coinAt(0, 1, 4)]), [
+    ["pair", 8],
+    ["trio", 12],
+  ]);
+  const registry = new RecipeRegistry(BUILT_IN_RECIPES);
+  const trio = registry.options(held, target, { neighbors: [coinAt(0, 1, 4)] })
+    .find(({ recipe }) => recipe.id === "trio");
+  assert.deepEqual(trio?.output, { value: 12, extra: [coinAt(0, 1, 4)] });
+});
+
+Deno.test("wildcards add and multipliers multiply", () => {
+  assert.deepEqual(crafts(coinAt(0, 0, 3), coinAt(1, 0, 5, "wildcard")), [
+    ["wildcard", 8],
+  ]);
+  assert.deepEqual(crafts(coinAt(0, 0, 2, "multiplier"), coinAt(1, 0, 6)), [
+    ["multiplier", 12],
+  ]);
+  // The multiplier wins over a wildcard
+  assert.deepEqual(
+    crafts(coinAt(0, 0, 3, "wildcard"), coinAt(1, 0, 2, "multiplier")),
+    [["multiplier", 6]],
+  );
+});
+
+Deno.test("usable coins never craft", () => {
+  for (const kind of ["magnet", "compass"] as const) {
+    assert.deepEqual(crafts(coinAt(0, 0, 0, kind), coinAt(1, 0, 0)), []);
+    assert.deepEqual(crafts(coinAt(0, 0, 1), coinAt(1, 0, 0, kind)), []);
+  }
+});
+
+Deno.test("new recipes plug into the registry", () => {
+  const registry = new RecipeRegistry(BUILT_IN_RECIPES);
+  const anything: Recipe = {
+    id: "anything",
+    label: "Anything",
+    description: "Any two coins make a 1.",
+    match: () => ({ value: 1 }),
+  };
+  registry.register(anything);
+  assert.equal(registry.get("anything"), anything);
+  assert.equal(registry.list().at(-1), anything);
+  assert.throws(() => registry.register(anything));
+});
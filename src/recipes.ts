@@ -0,0 +1,160 @@
+import { COIN_KINDS, CoinKind } from "./coinKinds.ts";
+import type { Coin } from "./generation.ts";
+
+// What a recipe can see besides the two coins being crafted
+export interface CraftContext {
+  // Coins lying in the six cells around the target, if the player can reach
+  // them
+  neighbors: Coin[];
+}
+
+export interface RecipeOutput {
+  value: number;
+  // Crafted coins are plain unless the recipe says otherwise
+  kind?: CoinKind;
+  // Coins used up besides the held coin and the target, e.g. a neighbor
+  extra?: Coin[];
+}
+
+// One way of crafting the held coin into the coin it is used on. The crafted
+// coin replaces the held one, and its history records the recipe and every
+// coin that went into it.
+export interface Recipe {
+  id: string;
+  label: string;
+  description: string;
+  // The output, or why the recipe does not apply to these coins
+  match(held: Coin, target: Coin, context: CraftContext): RecipeOutput | string;
+}
+
+export type RecipeOption = { recipe: Recipe; output: RecipeOutput | string };
+
+export class RecipeRegistry {
+  private recipes: Recipe[] = [];
+
+  constructor(recipes: Recipe[] = []) {
+    recipes.forEach((recipe) => this.register(recipe));
+  }
+
+  register(recipe: Recipe): void {
+    if (this.get(recipe.id)) {
+      throw new Error(`A recipe with id "${recipe.id}" already exists`);
+    }
+    this.recipes.push(recipe);
+  }
+
+  get(id: string): Recipe | undefined {
+    return this.recipes.find((recipe) => recipe.id === id);
+  }
+
+  list(): Recipe[] {
+    return [...this.recipes];
+  }
+
+  // Every recipe in registration order, with its output or the reason it
+  // does not apply. Usable coins are never crafted, whatever the recipe.
+  options(held: Coin, target: Coin, context: CraftContext): RecipeOption[] {
+    const usable = [held, target].find((coin) => COIN_KINDS[coin.kind].usable);
+    return this.recipes.map((recipe) => ({
+      recipe,
+      output: usable
+        ? `${COIN_KINDS[usable.kind].label}s are used, not crafted`
+        : recipe.match(held, target, context),
+    }));
+  }
+}
+
+const isPlain = (coin: Coin) => coin.kind === "plain";
+
+export const PAIR_RECIPE: Recipe = {
+  id: "pair",
+  label: "Craft",
+  description: "Two coins of the same value make one worth their sum.",
+  match(held, target) {
+    if (!isPlain(held) || !isPlain(target)) {
+      return "Special coins craft by their own recipes";
+    }
+    return held.value === target.value
+      ? { value: held.value + target.value }
+      : `Values differ (${held.value} ≠ ${target.value})`;
+  },
+};
+
+// Built up over several placements: put two equal coins side by side, then
+// craft a third into either of them
+export const TRIO_RECIPE: Recipe = {
+  id: "trio",
+  label: "Craft three",
+  description:
+    "Three coins of the same value, two of them side by side, make one " +
+    "worth all three.",
+  match(held, target, { neighbors }) {
+    if (!isPlain(held) || !isPlain(target) || held.value !== target.value) {
+      return "Needs two coins of the same value";
+    }
+    const third = neighbors.find((coin) =>
+      isPlain(coin) && coin.value === target.value
+    );
+    return third
+      ? { value: 3 * target.value, extra: [third] }
+      : "Needs a third coin of the same value next to the target";
+  },
+};
+
+// Share of the total an uneven merge keeps
+const UNEVEN_MERGE_KEEP = 0.75;
+
+// Only coins within a factor of two merge, so the result is always worth more
+// than the larger coin
+export const UNEVEN_MERGE_RECIPE: Recipe = {
+  id: "uneven-merge",
+  label: "Merge",
+  description:
+    "Two coins of different but close values make one worth three quarters " +
+    "of their sum.",
+  match(held, target) {
+    if (!isPlain(held) || !isPlain(target) || held.value === target.value) {
+      return "Needs two coins of different values";
+    }
+    const larger = Math.max(held.value, target.value);
+    const smaller = Math.min(held.value, target.value);
+    return larger < 2 * smaller
+      ? { value: Math.floor((held.value + target.value) * UNEVEN_MERGE_KEEP) }
+      : "One coin is worth twice the other or more";
+  },
+};
+
+export const WILDCARD_RECIPE: Recipe = {
+  id: "wildcard",
+  label: "Craft wildcard",
+  description: COIN_KINDS.wildcard.description,
+  match(held, target) {
+    if (held.kind === "multiplier" || target.kind === "multiplier") {
+      return "Multipliers take precedence";
+    }
+    return held.kind === "wildcard" || target.kind === "wildcard"
+      ? { value: held.value + target.value }
+      : "Neither coin is a wildcard";
+  },
+};
+
+export const MULTIPLIER_RECIPE: Recipe = {
+  id: "multiplier",
+  label: "Multiply",
+  description: COIN_KINDS.multiplier.description,
+  match(held, target) {
+    return held.kind === "multiplier" || target.kind === "multiplier"
+      ? { value: held.value * target.value }
+      : "Neither coin is a multiplier";
+  },
+};
+
+// The pair recipe comes first: its reason is the one shown when nothing
+// applies
+export const BUILT_IN_RECIPES: Recipe[] = [
+  PAIR_RECIPE,
+  TRIO_RECIPE,
+  UNEVEN_MERGE_RECIPE,
+  WILDCARD_RECIPE,
+  MULTIPLIER_RECIPE,
+];
@@ -0,0 +1,78 @@
+import type { GameState } from "./serialization.ts";
+import { parseGameState } from "./serialization.ts";
+
+// "json" is a readable save file; "base64" gzips the JSON and base64 encodes
+// it into a single line that can be pasted into chats or issues.
+export type SaveEncoding = "json" | "base64";
+
+export interface EncodedSave {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+async function pipeThrough(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function base64ToBytes(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export async function encodeSave(
+  state: GameState,
+  encoding: SaveEncoding,
+): Promise<EncodedSave> {
+  const date = new Date().toISOString().slice(0, 10);
+  const json = JSON.stringify(state);
+  if (encoding === "json") {
+    return {
+      filename: `geocoin-save-${date}.json`,
+      mimeType: "application/json",
+      content: json,
+    };
+  }
+  const bytes = new TextEncoder().encode(json);
+  const compressed = typeof CompressionStream === "function"
+    ? await pipeThrough(bytes, new CompressionStream("gzip"))
+    : bytes;
+  return {
+    filename: `geocoin-save-${date}.txt`,
+    mimeType: "text/plain",
+    content: bytesToBase64(compressed),
+  };
+}
+
+// Accepts either encoding and runs the result through the same migration and
+// validation path as loadGameState, so imports can never bypass it.
+export async function decodeSave(text: string): Promise<GameState> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    return parseGameState(trimmed);
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(trimmed);
+  } catch (_) {
+    throw new Error("Save file is neither JSON nor a base64 share code");
+  }
+  if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+    bytes = await pipeThrough(bytes, new DecompressionStream("gzip"));
+  }
+  return parseGameState(new TextDecoder().decode(bytes));
+}
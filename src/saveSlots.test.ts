@@ -0,0 +1,51 @@
+import "fake-indexeddb/auto";
+import assert from "node:assert/strict";
+import {
+  createSlot,
+  deleteSlot,
+  listSlots,
+  recoverSlots,
+} from "./saveSlots.ts";
+import {
+  IndexedDBBackend,
+  LocalStorageBackend,
+  slotStorageKey,
+} from "./storage.ts";
+
+Deno.test("saves survive an unreadable slot list", async () => {
+  localStorage.clear();
+  localStorage.setItem("saveSlots", "{not json");
+  localStorage.setItem(slotStorageKey("a"), "{}");
+  localStorage.setItem(slotStorageKey("b"), "{}");
+  localStorage.setItem(`${slotStorageKey("b")}.backup-1`, "{}");
+  try {
+    const recovered = await recoverSlots(new LocalStorageBackend());
+    assert.deepEqual(recovered.map((slot) => slot.id).sort(), ["a", "b"]);
+    assert.deepEqual(
+      listSlots().map((slot) => slot.name).sort(),
+      ["Game 1", "Recovered game 1", "Recovered game 2"],
+    );
+    const backup = Object.keys(localStorage)
+      .find((key) => key.startsWith("saveSlots.backup-"));
+    assert.equal(backup && localStorage.getItem(backup), "{not json");
+    // Nothing is missing the second time around
+    assert.deepEqual(await recoverSlots(new LocalStorageBackend()), []);
+  } finally {
+    localStorage.clear();
+  }
+});
+
+Deno.test("deleted slots stay gone after recovery", async () => {
+  localStorage.clear();
+  const storage = await IndexedDBBackend.open();
+  try {
+    // Saved by an older build and not yet imported into IndexedDB
+    const slot = createSlot();
+    localStorage.setItem(slotStorageKey(slot.id), "{}");
+    assert.ok(await deleteSlot(storage, slot.id));
+    assert.deepEqual(await recoverSlots(storage), []);
+    assert.ok(listSlots().every(({ id }) => id !== slot.id));
+  } finally {
+    localStorage.clear();
+  }
+});
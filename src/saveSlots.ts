@@ -0,0 +1,170 @@
+import type { SaveSummary } from "./serialization.ts";
+import { slotStorageKey, StorageBackend } from "./storage.ts";
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastPlayed: number;
+  summary: SaveSummary | null;
+}
+
+interface SlotIndex {
+  activeSlotId: string;
+  slots: SaveSlot[];
+}
+
+const SLOT_INDEX_KEY = "saveSlots";
+// Single-slot builds stored their only save under this key
+const LEGACY_STORAGE_KEY = "gameState";
+
+function newSlot(name: string): SaveSlot {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    lastPlayed: now,
+    summary: null,
+  };
+}
+
+function writeIndex(index: SlotIndex): void {
+  try {
+    localStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+  } catch (_) {
+    // Ignore storage errors (quota, privacy mode, etc.)
+  }
+}
+
+function parseIndex(raw: string): SlotIndex | null {
+  try {
+    const index = JSON.parse(raw) as SlotIndex;
+    return Array.isArray(index?.slots) && index.slots.length > 0 ? index : null;
+  } catch (_) {
+    return null;
+  }
+}
+
+// An unreadable index is kept aside and replaced with a fresh one; the saves
+// it listed are added back by recoverSlots
+function readIndex(): SlotIndex {
+  const raw = localStorage.getItem(SLOT_INDEX_KEY);
+  if (raw) {
+    const index = parseIndex(raw);
+    if (index) return index;
+    const backupKey = `${SLOT_INDEX_KEY}.backup-${Date.now()}`;
+    try {
+      localStorage.setItem(backupKey, raw);
+      console.error(`Unreadable save slot list, kept under "${backupKey}"`);
+    } catch (error) {
+      console.error("Unreadable save slot list could not be kept:", error);
+    }
+  }
+
+  const slot = newSlot("Game 1");
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) {
+    localStorage.setItem(slotStorageKey(slot.id), legacy);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  const index = { activeSlotId: slot.id, slots: [slot] };
+  writeIndex(index);
+  return index;
+}
+
+function updateSlot(slotId: string, update: Partial<SaveSlot>): void {
+  const index = readIndex();
+  index.slots = index.slots.map((slot) =>
+    slot.id === slotId ? { ...slot, ...update } : slot
+  );
+  writeIndex(index);
+}
+
+export function listSlots(): SaveSlot[] {
+  return [...readIndex().slots].sort((a, b) => b.lastPlayed - a.lastPlayed);
+}
+
+export function getActiveSlotId(): string {
+  const index = readIndex();
+  return index.slots.some((slot) => slot.id === index.activeSlotId)
+    ? index.activeSlotId
+    : index.slots[0].id;
+}
+
+export function setActiveSlot(slotId: string): void {
+  const index = readIndex();
+  if (!index.slots.some((slot) => slot.id === slotId)) return;
+  writeIndex({ ...index, activeSlotId: slotId });
+}
+
+export function createSlot(name?: string): SaveSlot {
+  const index = readIndex();
+  const slot = newSlot(name ?? `Game ${index.slots.length + 1}`);
+  writeIndex({ ...index, slots: [...index.slots, slot] });
+  return slot;
+}
+
+export function renameSlot(slotId: string, name: string): void {
+  const trimmed = name.trim();
+  if (trimmed) updateSlot(slotId, { name: trimmed });
+}
+
+export async function duplicateSlot(
+  storage: StorageBackend,
+  slotId: string,
+): Promise<SaveSlot | undefined> {
+  const source = readIndex().slots.find((slot) => slot.id === slotId);
+  if (!source) return undefined;
+  const copy: SaveSlot = {
+    ...newSlot(`${source.name} (copy)`),
+    lastPlayed: source.lastPlayed,
+    summary: source.summary,
+  };
+  await storage.copySave(slotId, copy.id);
+  const index = readIndex();
+  writeIndex({ ...index, slots: [...index.slots, copy] });
+  return copy;
+}
+
+// The active slot cannot be deleted; switch to another one first
+export async function deleteSlot(
+  storage: StorageBackend,
+  slotId: string,
+): Promise<boolean> {
+  if (slotId === readIndex().activeSlotId) return false;
+  await storage.deleteSave(slotId);
+  const index = readIndex();
+  writeIndex({
+    ...index,
+    slots: index.slots.filter((slot) => slot.id !== slotId),
+  });
+  return true;
+}
+
+// Lists saves that storage holds but the slot index does not, e.g. after the
+// index was lost. Returns the slots that were added back.
+export async function recoverSlots(
+  storage: StorageBackend,
+): Promise<SaveSlot[]> {
+  const known = new Set(readIndex().slots.map((slot) => slot.id));
+  const recovered = (await storage.listSaves())
+    .filter((slotId) => !known.has(slotId))
+    .map((slotId, i) => ({
+      ...newSlot(`Recovered game ${i + 1}`),
+      id: slotId,
+    }));
+  if (recovered.length > 0) {
+    const index = readIndex();
+    writeIndex({ ...index, slots: [...index.slots, ...recovered] });
+  }
+  return recovered;
+}
+
+export function getSlotSummary(slotId: string): SaveSummary | null {
+  return readIndex().slots.find((slot) => slot.id === slotId)?.summary ?? null;
+}
+
+export function recordSlotPlayed(slotId: string, summary: SaveSummary): void {
+  updateSlot(slotId, { lastPlayed: Date.now(), summary });
+}
@@ -0,0 +1,378 @@
+import assert from "node:assert/strict";
+import { DEFAULT_TRAVEL_STEP_MS } from "./config.ts";
+import { GameEngine } from "./engine.ts";
+import { Coin, createCoinMemento } from "./generation.ts";
+import { CellInstance, METERS_PER_DEGREE, SharedCellData } from "./grid.ts";
+import { DEFAULT_KEY_BINDINGS } from "./input.ts";
+import { CURRENT_SAVE_VERSION, SaveMigrationError } from "./migrations.ts";
+import {
+  GameState,
+  parseGameState,
+  restoreIntoEngine,
+  snapshotGameState,
+} from "./serialization.ts";
+import { LocalStorageBackend } from "./storage.ts";
+import { coinAt as testCoinAt } from "./testCoins.ts";
+import { DEFAULT_WORLD_SETTINGS, WorldSettings } from "./worldSettings.ts";
+
+function newEngine() {
+  const grid = new SharedCellData({ lat: 0, lng: 0 });
+  return new GameEngine(new EventTarget(), grid, {
+    position: grid.getCenter(0, 0),
+    reach: 60,
+  });
+}
+
+function coinAt(
+  engine: GameEngine,
+  q: number,
+  r: number,
+  value: number,
+): Coin {
+  const coin = testCoinAt(q, r, value, "plain", engine.grid);
+  return {
+    ...coin,
+    history: [{
+      kind: "spawned",
+      timestamp: 1,
+      cell: coin.cell.coord,
+      ...coin.position,
+    }],
+    sprite: "f80---",
+  };
+}
+
+const config = {
+  debugMovement: true,
+  keyBindings: { ...DEFAULT_KEY_BINDINGS, north: "ArrowUp" },
+  travelStepMs: 500,
+};
+
+Deno.test("a snapshot survives JSON and restores into a new engine", () => {
+  const engine = newEngine();
+  engine.pickUp(coinAt(engine, 1, 0, 4));
+  engine.swap(coinAt(engine, 0, 1, 6));
+  const json = JSON.stringify(snapshotGameState(config, engine));
+
+  const state = parseGameState(json);
+  assert.equal(state.version, CURRENT_SAVE_VERSION);
+  assert.deepEqual(state.config, config);
+
+  const restored = newEngine();
+  restoreIntoEngine(state, restored);
+  assert.deepEqual(
+    restored.persisted.getEntries(),
+    engine.persisted.getEntries(),
+  );
+  assert.deepEqual(restored.persisted.getStats(), { cells: 2, coins: 1 });
+
+  const held = restored.inventory.coin!;
+  const original = engine.inventory.coin!;
+  assert.equal(held.id, original.id);
+  assert.equal(held.value, 6);
+  assert.equal(held.cell.id, original.cell.id);
+  assert.equal(held.sprite, original.sprite);
+  assert.deepEqual(held.history, original.history);
+});
+
+Deno.test("restored coins can be crafted like the originals", () => {
+  const engine = newEngine();
+  engine.pickUp(coinAt(engine, 1, 0, 5));
+  const state = parseGameState(
+    JSON.stringify(snapshotGameState(config, engine)),
+  );
+
+  const restored = newEngine();
+  restoreIntoEngine(state, restored);
+  assert.equal(restored.craft(coinAt(restored, 0, 1, 5)), true);
+  assert.equal(restored.inventory.coin?.value, 10);
+});
+
+Deno.test("persisted changes are taken once and can be requeued", () => {
+  const engine = newEngine();
+  engine.pickUp(coinAt(engine, 1, 0, 2));
+  engine.place(new CellInstance(0, 1, engine.grid));
+
+  const changes = engine.persisted.takeChanges();
+  assert.equal(changes.replace, false);
+  assert.deepEqual(
+    changes.entries.map((e) => [e.cellId, e.memento?.value ?? null]),
+    [["1,0", null], ["0,1", 2]],
+  );
+  assert.deepEqual(engine.persisted.takeChanges().entries, []);
+
+  engine.persisted.requeueChanges(changes);
+  assert.equal(engine.persisted.takeChanges().entries.length, 2);
+});
+
+Deno.test("a failed write survives its region being evicted", async () => {
+  const engine = newEngine();
+  const placed = createCoinMemento(coinAt(engine, 1, 0, 5));
+  engine.persisted.setSource(() => Promise.resolve([]), { cells: 0, coins: 0 });
+  await engine.persisted.ensureRegionsLoaded(new Set(["0,0"]));
+  engine.persisted.setAnchor("player", { q: 1, r: 0 });
+  engine.persisted.set("1,0", placed);
+  engine.persisted.set("2,0", null, 0);
+
+  // The write is in flight when the player walks far away, then it fails
+  const changes = engine.persisted.takeChanges();
+  engine.persisted.setAnchor("player", { q: 1000, r: 0 });
+  engine.persisted.evictFarRegions(1);
+  assert.equal(engine.persisted.isRegionReady("0,0"), false);
+  engine.persisted.requeueChanges(changes);
+
+  // The retry writes the cells again rather than deleting them from storage
+  const retry = engine.persisted.takeChanges();
+  assert.deepEqual(retry.removed, []);
+  assert.deepEqual(retry.entries, changes.entries);
+});
+
+Deno.test("cells load lazily from a region source", async () => {
+  const engine = newEngine();
+  engine.persisted.set("17,0", createCoinMemento(coinAt(engine, 17, 0, 3)));
+  const stored = engine.persisted.getEntries();
+
+  const restored = newEngine();
+  const requested: string[] = [];
+  restored.persisted.setSource((region) => {
+    requested.push(region);
+    return Promise.resolve(
+      stored.filter((e) => e.cellId.startsWith("17,")),
+    );
+  }, engine.persisted.getStats());
+  assert.equal(restored.persisted.isRegionReady("1,0"), false);
+
+  await restored.persisted.ensureRegionsLoaded(new Set(["1,0"]));
+  assert.deepEqual(requested, ["1,0"]);
+  assert.equal(restored.persisted.get("17,0")?.value, 3);
+  assert.equal(restored.persisted.isRegionReady("0,0"), false);
+});
+
+Deno.test("version 1 saves gain defaults for newer settings", () => {
+  const state = parseGameState(JSON.stringify({
+    version: 1,
+    config: { debugMovement: false },
+    player: { lat: 1, lng: 2 },
+  }));
+  assert.equal(state.version, CURRENT_SAVE_VERSION);
+  assert.deepEqual(state.config.keyBindings, DEFAULT_KEY_BINDINGS);
+  assert.equal(state.config.travelStepMs, DEFAULT_TRAVEL_STEP_MS);
+  // Older worlds keep the cells they were played on, and emptied cells
+  // never regrow
+  assert.deepEqual(state.world, {
+    ...DEFAULT_WORLD_SETTINGS,
+    cellSize: 0.00005 * METERS_PER_DEGREE,
+    projection: "plate-carree",
+    regrowMs: null,
+  });
+});
+
+Deno.test("unversioned saves with free-text history migrate fully", () => {
+  // As the game wrote them before saves had a version
+  const memento = (q: number, r: number, value: number, history: string[]) => ({
+    id: `coin-${q},${r}`,
+    value,
+    lat: q * 0.0001,
+    lng: r * 0.0001,
+    q,
+    r,
+    history,
+  });
+  const state = parseGameState(JSON.stringify({
+    config: { debugMovement: true },
+    player: { lat: 1, lng: 2 },
+    persistedCoins: [
+      { cellId: "1,0", memento: null },
+      {
+        cellId: "2,3",
+        memento: memento(2, 3, 4, [
+          "Spawned in cell 2,3",
+          "Picked up from cell 2,3",
+          "Placed in cell 5,-1",
+        ]),
+      },
+    ],
+    inventoryCoin: memento(0, 1, 8, [
+      "Spawned in cell 0,1",
+      "Crafted new coin with value 8",
+      "Found <b>behind</b> the sofa",
+    ]),
+  }));
+  assert.equal(state.version, CURRENT_SAVE_VERSION);
+  assert.equal(state.config.debugMovement, true);
+  assert.equal(state.world.regrowMs, null);
+  assert.equal(state.world.inventorySlots, 1);
+  assert.equal(state.activeSlot, 0);
+
+  // Known phrases become typed events; the rest is kept as text
+  const at = (q: number, r: number) => ({
+    timestamp: 0,
+    cell: { q, r },
+    lat: q * 0.0001,
+    lng: r * 0.0001,
+  });
+  assert.deepEqual(state.inventoryCoins, [{
+    ...memento(0, 1, 8, []),
+    history: [
+      { ...at(0, 1), kind: "spawned" },
+      { ...at(0, 1), kind: "crafted", value: 8, parents: [] },
+      { ...at(0, 1), kind: "legacy", text: "Found <b>behind</b> the sofa" },
+    ],
+  }]);
+  const placed = at(2, 3);
+  assert.deepEqual(state.persistedCoins, [
+    { cellId: "1,0", memento: null },
+    {
+      cellId: "2,3",
+      memento: {
+        ...memento(2, 3, 4, []),
+        history: [
+          { ...placed, kind: "spawned" },
+          { ...placed, kind: "picked-up" },
+          { ...placed, kind: "placed", cell: { q: 5, r: -1 } },
+        ],
+      },
+    },
+  ]);
+
+  // The migrated save restores like any other
+  const engine = newEngine();
+  restoreIntoEngine(state, engine);
+  assert.equal(engine.inventory.coin?.value, 8);
+  assert.equal(engine.persisted.get("1,0"), null);
+  assert.equal(engine.persisted.get("2,3")?.history.length, 3);
+});
+
+Deno.test("saves with broken key bindings are rejected", () => {
+  const save = JSON.stringify({
+    version: CURRENT_SAVE_VERSION,
+    config: {
+      debugMovement: false,
+      keyBindings: { ...DEFAULT_KEY_BINDINGS, south: 5 },
+      travelStepMs: 250,
+    },
+    player: { lat: 1, lng: 2 },
+  });
+  assert.throws(() => parseGameState(save), SaveMigrationError);
+});
+
+Deno.test("world settings are saved and applied on restore", () => {
+  const world: WorldSettings = {
+    seed: "abc",
+    cellSize: 11,
+    projection: "plate-carree",
+    spawnProbability: 0.25,
+    valueDistribution: { kind: "powers-of-two", maxExponent: 4, ratio: 0.5 },
+    reach: 90,
+    loadRadius: 15,
+    regrowMs: null,
+    inventorySlots: 3,
+  };
+  const engine = newEngine();
+  engine.applySettings(world);
+  const state = parseGameState(
+    JSON.stringify(snapshotGameState(config, engine)),
+  );
+  assert.deepEqual(state.world, world);
+
+  const restored = newEngine();
+  restoreIntoEngine(state, restored);
+  assert.deepEqual(restored.settings, world);
+  assert.equal(restored.grid.size, 11);
+  assert.equal(restored.grid.projection, "plate-carree");
+  assert.equal(restored.player.reach, 90);
+});
+
+Deno.test("expired tombstones are removed from storage", () => {
+  const engine = newEngine();
+  // Cells that never held a coin grow none back
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, spawnProbability: 0 });
+  engine.persisted.setEntries([
+    { cellId: "3,3", memento: null, emptiedAt: 0 },
+    { cellId: "4,4", memento: null, emptiedAt: Date.now() },
+  ]);
+  engine.persisted.takeChanges();
+  assert.deepEqual(engine.regrowExpired(), ["3,3"]);
+  assert.deepEqual(engine.persisted.takeChanges(), {
+    entries: [],
+    removed: ["3,3"],
+    replace: false,
+  });
+});
+
+Deno.test("a version 5 held coin moves into the first inventory slot", () => {
+  const engine = newEngine();
+  const memento = createCoinMemento(coinAt(engine, 1, 0, 7));
+  const state = parseGameState(JSON.stringify({
+    version: 5,
+    config,
+    world: {
+      ...DEFAULT_WORLD_SETTINGS,
+      cellSize: 0.00005,
+      projection: undefined,
+      inventorySlots: undefined,
+    },
+    player: { lat: 1, lng: 2 },
+    inventoryCoin: memento,
+  }));
+  assert.equal(state.world.inventorySlots, 1);
+  assert.deepEqual(state.inventoryCoins, [memento]);
+  assert.equal(state.activeSlot, 0);
+  assert.equal("inventoryCoin" in state, false);
+});
+
+Deno.test("every inventory slot and the active one are restored", () => {
+  const engine = newEngine();
+  engine.applySettings({ ...DEFAULT_WORLD_SETTINGS, inventorySlots: 3 });
+  engine.pickUp(coinAt(engine, 1, 0, 4));
+  engine.pickUp(coinAt(engine, 0, 1, 6));
+  engine.inventory.move(1, 2);
+  const state = parseGameState(
+    JSON.stringify(snapshotGameState(config, engine)),
+  );
+  assert.deepEqual(state.inventoryCoins?.map((coin) => coin?.value ?? null), [
+    4,
+    null,
+    6,
+  ]);
+
+  const restored = newEngine();
+  restoreIntoEngine(state, restored);
+  assert.equal(restored.inventory.capacity, 3);
+  assert.equal(restored.inventory.activeSlot, 2);
+  assert.equal(restored.inventory.coin?.value, 6);
+  assert.equal(restored.inventory.coinIn(0)?.value, 4);
+});
+
+Deno.test("saves holding more coins than slots are rejected", () => {
+  const engine = newEngine();
+  const memento = createCoinMemento(coinAt(engine, 1, 0, 7));
+  const save = JSON.stringify({
+    ...snapshotGameState(config, engine),
+    inventoryCoins: [memento, memento],
+  });
+  assert.throws(() => parseGameState(save), SaveMigrationError);
+});
+
+Deno.test("overlapping localStorage saves keep each other's cells", async () => {
+  const engine = newEngine();
+  const { persistedCoins: _, ...meta } = snapshotGameState(config, engine);
+  const entry = (q: number) => ({
+    cellId: `${q},0`,
+    memento: createCoinMemento(coinAt(engine, q, 0, 4)),
+  });
+  const storage = new LocalStorageBackend();
+  try {
+    await Promise.all([
+      storage.writeSave("overlap", meta, [entry(1)], false),
+      storage.writeSave("overlap", meta, [entry(2)], false),
+    ]);
+    const saved = await storage.readSave("overlap") as GameState;
+    assert.deepEqual(saved.persistedCoins?.map((e) => e.cellId), [
+      "1,0",
+      "2,0",
+    ]);
+  } finally {
+    await storage.deleteSave("overlap");
+  }
+});
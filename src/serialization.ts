@@ -1,12 +1,22 @@
-import leaflet from "leaflet";
+import type { GameEngine } from "./engine.ts";
 import type { CoinMemento } from "./generation.ts";
 import { createCoinMemento } from "./generation.ts";
-import { Inventory } from "./player.ts";
-import { Positioning } from "./positioning.ts";
-import { updateInventoryUI } from "./ui.ts";
-import { World } from "./world.ts";
+import type { KeyBindings } from "./input.ts";
+import {
+  CURRENT_SAVE_VERSION,
+  migrateGameState,
+  needsMigration,
+  SaveMigrationError,
+  validatePersistedEntries,
+} from "./migrations.ts";
+import { getSlotSummary, recordSlotPlayed } from "./saveSlots.ts";
+import type { StorageBackend } from "./storage.ts";
+import type { WorldSettings } from "./worldSettings.ts";
+
 export interface GameConfig {
   debugMovement: boolean;
+  keyBindings: KeyBindings;
+  travelStepMs: number;
 }
 
 export interface PlayerState {
@@ -17,130 +27,214 @@ export interface PlayerState {
 export interface PersistedCoinEntry {
   cellId: string;
   memento: CoinMemento | null;
+  // When a tombstone's cell was emptied. Tombstones saved before cells could
+  // regrow have none and count as emptied long ago.
+  emptiedAt?: number;
 }
 
 export interface GameState {
+  version: number;
   config: GameConfig;
+  world: WorldSettings;
   player: PlayerState;
   persistedCoins?: PersistedCoinEntry[];
-  inventoryCoin?: CoinMemento | null;
+  // One entry per inventory slot; null for an empty slot
+  inventoryCoins?: (CoinMemento | null)[];
+  activeSlot?: number;
 }
 
-const STORAGE_KEY = "gameState";
+export interface LoadResult {
+  state: GameState | null;
+  error?: string;
+  backupLocation?: string;
+}
 
-export function loadGameState(): GameState | null {
+export function parseGameState(raw: string): GameState {
+  let parsed: unknown;
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    if (parsed && typeof parsed === "object") {
-      const state: GameState = {
-        config: {
-          debugMovement: Boolean(parsed.config.debugMovement),
-        },
-        player: parsed.player,
-      };
-      if (Array.isArray(parsed.persistedCoins)) {
-        const entries: PersistedCoinEntry[] = [];
-        for (const e of parsed.persistedCoins) {
-          if (e && typeof e.cellId === "string") {
-            if (e.memento === null) {
-              entries.push({ cellId: e.cellId, memento: null });
-            } else if (e.memento && typeof e.memento === "object") {
-              const m = e.memento;
-              if (
-                typeof m.id === "string" &&
-                typeof m.value === "number" &&
-                typeof m.lat === "number" &&
-                typeof m.lng === "number" &&
-                typeof m.q === "number" &&
-                typeof m.r === "number" &&
-                Array.isArray(m.history)
-              ) {
-                entries.push({ cellId: e.cellId, memento: m as CoinMemento });
-              }
-            }
-          }
-        }
-        state.persistedCoins = entries;
-      }
-      if (parsed.inventoryCoin) {
-        const m = parsed.inventoryCoin;
-        if (
-          m === null ||
-          (typeof m === "object" &&
-            typeof m.id === "string" &&
-            typeof m.value === "number" &&
-            typeof m.lat === "number" &&
-            typeof m.lng === "number" &&
-            typeof m.q === "number" &&
-            typeof m.r === "number" &&
-            Array.isArray(m.history))
-        ) {
-          state.inventoryCoin = m as CoinMemento | null;
-        }
-      }
-      return state;
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new SaveMigrationError(`Save is not valid JSON: ${error}`, null);
+  }
+  return migrateGameState(parsed);
+}
+
+// Saves in the current format load without their persisted cells, which are
+// read region by region later (see restoreIntoEngine). Older saves are read in
+// full once, migrated, and written back in the current format.
+export async function loadGameState(
+  storage: StorageBackend,
+  slotId: string,
+): Promise<LoadResult> {
+  let raw: unknown;
+  try {
+    raw = await storage.readMeta(slotId);
+  } catch (error) {
+    return { state: null, error: `Could not read save: ${error}` };
+  }
+  if (raw === null || raw === undefined) return { state: null };
+  try {
+    if (!needsMigration(raw)) {
+      return { state: migrateGameState(raw) };
+    }
+    const state = migrateGameState(await storage.readSave(slotId));
+    await saveGameState(storage, slotId, state);
+    return { state };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Failed to load save:", error);
+    // Keep the unreadable save so a failed load never costs the player their
+    // progress once the game auto-saves over the slot.
+    try {
+      const full = await storage.readSave(slotId);
+      const backupLocation = await storage.backupSave(slotId, full);
+      return { state: null, error: message, backupLocation };
+    } catch (_) {
+      return { state: null, error: message };
     }
-    return null;
-  } catch (_) {
-    return null;
   }
 }
 
-export function saveGameState(state: GameState): void {
+export async function loadPersistedRegion(
+  storage: StorageBackend,
+  slotId: string,
+  region: string,
+): Promise<PersistedCoinEntry[]> {
+  const { entries, errors } = validatePersistedEntries(
+    await storage.readRegion(slotId, region),
+  );
+  if (errors.length > 0) {
+    console.error(`Skipped invalid cells in region ${region}:`, errors);
+  }
+  return entries;
+}
+
+// Writes a complete save, replacing every persisted cell in the slot
+export async function saveGameState(
+  storage: StorageBackend,
+  slotId: string,
+  state: GameState,
+): Promise<void> {
+  const { persistedCoins, ...meta } = state;
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch (_) {
-    // Ignore storage errors (quota, privacy mode, etc.)
+    await storage.writeSave(slotId, meta, persistedCoins ?? [], true);
+    recordSlotPlayed(slotId, summarizeGameState(state));
+  } catch (error) {
+    console.error("Failed to save game:", error);
   }
 }
+
+// persistedCoins only holds the regions the engine currently has loaded
 export function snapshotGameState(
   config: GameConfig,
-  positioning: Positioning,
-  world: World,
-  inventory: Inventory,
+  engine: GameEngine,
 ): GameState {
+  const { position } = engine.player;
+  const { inventory } = engine;
+  return {
+    version: CURRENT_SAVE_VERSION,
+    config: {
+      debugMovement: config.debugMovement,
+      keyBindings: { ...config.keyBindings },
+      travelStepMs: config.travelStepMs,
+    },
+    world: structuredClone(engine.settings),
+    player: { lat: position.lat, lng: position.lng },
+    persistedCoins: engine.persisted.getEntries(),
+    inventoryCoins: inventory.slots.map((coin) =>
+      coin ? createCoinMemento(coin) : null
+    ),
+    activeSlot: inventory.activeSlot,
+  };
+}
+
+export interface SaveSummary {
+  player: PlayerState;
+  persistedCells: number;
+  placedCoins: number;
+  highestCoinValue: number;
+  // Values of the coins held, by slot; empty slots are skipped
+  inventoryValues: number[];
+}
+
+export function summarizeGameState(state: GameState): SaveSummary {
+  const entries = state.persistedCoins ?? [];
+  const values = entries.flatMap((e) => e.memento ? [e.memento.value] : []);
+  const held = (state.inventoryCoins ?? []).flatMap((coin) =>
+    coin ? [coin.value] : []
+  );
+  values.push(...held);
   return {
-    config: { debugMovement: config.debugMovement },
-    player: { lat: positioning.position.lat, lng: positioning.position.lng },
-    persistedCoins: world.getPersistedEntries(),
-    inventoryCoin: inventory.hasItem()
-      ? createCoinMemento(inventory.coin!)
-      : null,
+    player: { ...state.player },
+    persistedCells: entries.length,
+    placedCoins: entries.filter((e) => e.memento !== null).length,
+    // Spreading every value into Math.max overflows the stack on big saves
+    highestCoinValue: values.reduce((best, value) => Math.max(best, value), 0),
+    inventoryValues: held,
   };
 }
 
-// Convenience wrapper to snapshot and persist
-export function persistCurrentState(
+// Snapshot and persist, writing only the cells that changed since last time
+export async function persistCurrentState(
+  storage: StorageBackend,
+  slotId: string,
   config: GameConfig,
-  positioning: Positioning,
-  world: World,
-  inventory: Inventory,
-): void {
-  saveGameState(snapshotGameState(config, positioning, world, inventory));
+  engine: GameEngine,
+): Promise<void> {
+  const state = snapshotGameState(config, engine);
+  const { persistedCoins: _, ...meta } = state;
+  const changes = engine.persisted.takeChanges();
+  // The snapshot only holds loaded regions, so cell counts come from the
+  // running totals and the best coin is carried over from last time
+  const loaded = summarizeGameState(state);
+  const stats = engine.persisted.getStats();
+  const previous = changes.replace ? null : getSlotSummary(slotId);
+  try {
+    await storage.writeSave(
+      slotId,
+      meta,
+      changes.entries,
+      changes.replace,
+      changes.removed,
+    );
+    recordSlotPlayed(slotId, {
+      ...loaded,
+      persistedCells: stats.cells,
+      placedCoins: stats.coins,
+      highestCoinValue: Math.max(
+        loaded.highestCoinValue,
+        previous?.highestCoinValue ?? 0,
+      ),
+    });
+  } catch (error) {
+    console.error("Failed to save game:", error);
+    engine.persisted.requeueChanges(changes);
+  }
 }
 
-// Apply a loaded game state back into runtime (except player position already handled externally)
-export function restoreIntoWorld(
+// Apply a loaded game state back into runtime (except player position already handled externally).
+// States loaded without cells read them lazily from the slot they came from.
+export function restoreIntoEngine(
   state: GameState,
-  world: World,
-  inventory: Inventory,
+  engine: GameEngine,
+  source?: { storage: StorageBackend; slotId: string },
 ): void {
+  engine.applySettings(structuredClone(state.world));
   if (state.persistedCoins) {
-    world.setPersistedEntries(state.persistedCoins);
-  }
-  if (state.inventoryCoin) {
-    const m = state.inventoryCoin;
-    const cellInstance = world.getCell(m.q, m.r);
-    const restoredCoin = {
-      id: m.id,
-      value: m.value,
-      position: leaflet.latLng(m.lat, m.lng),
-      cell: cellInstance,
-      history: [...m.history],
-    };
-    inventory.swapItem(restoredCoin);
-    updateInventoryUI(inventory);
+    engine.persisted.setEntries(state.persistedCoins);
+  } else if (source) {
+    const { storage, slotId } = source;
+    const summary = getSlotSummary(slotId);
+    engine.persisted.setSource(
+      (region) => loadPersistedRegion(storage, slotId, region),
+      {
+        cells: summary?.persistedCells ?? 0,
+        coins: summary?.placedCoins ?? 0,
+      },
+    );
   }
+  state.inventoryCoins?.forEach((coin, slot) => {
+    if (coin) engine.inventory.swapItem(engine.restoreCoin(coin), slot);
+  });
+  engine.inventory.select(state.activeSlot ?? 0);
 }
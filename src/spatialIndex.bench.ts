@@ -0,0 +1,88 @@
+// Loaded cells and coins as World keeps them, compared with the scans they
+// replaced. Run with `deno task bench`.
+import { CoinIndex } from "./coinIndex.ts";
+import { Coin } from "./generation.ts";
+import { CellInstance, distanceMeters, SharedCellData } from "./grid.ts";
+import {
+  hexDistance,
+  hexNeighbor,
+  hexRange,
+  packHex,
+  unpackHex,
+} from "./hex.ts";
+
+const LOAD_RADIUS = 100;
+const REACH = 60;
+const SPAWN_EVERY = 10;
+
+const grid = new SharedCellData({ lat: 0, lng: 0 });
+const player = { q: 12_000, r: -7_000 };
+const position = grid.getCenter(player.q, player.r);
+const loaded = hexRange(player, LOAD_RADIUS);
+const loadedCells = new Set(loaded.map(packHex));
+const centers = loaded.map(({ q, r }) => grid.getCenter(q, r));
+
+const coins: Coin[] = loaded
+  .filter((_, i) => i % SPAWN_EVERY === 0)
+  .map(({ q, r }) => {
+    const cell = new CellInstance(q, r, grid);
+    return {
+      id: `coin-${cell.id}`,
+      kind: "plain",
+      value: 1,
+      position: cell.center,
+      cell,
+      history: [],
+      sprite: "",
+    };
+  });
+const coinList = coins.map((coin) => ({ coin, data: null }));
+const index = new CoinIndex<null>();
+for (const coin of coins) index.set(coin, null);
+
+// The cells a step north leaves behind
+const next = hexNeighbor(player, "north");
+const unloaded = loaded.filter((coord) =>
+  hexDistance(coord, next) > LOAD_RADIUS
+);
+const unloadedCells = unloaded.map(packHex);
+
+Deno.bench({
+  name: "measure every loaded cell",
+  group: "nearby cells",
+  baseline: true,
+  fn() {
+    const nearby = [];
+    for (const [i, center] of centers.entries()) {
+      if (distanceMeters(position, center) <= REACH) nearby.push(loaded[i]);
+    }
+  },
+});
+
+Deno.bench({
+  name: "cellsWithin",
+  group: "nearby cells",
+  fn() {
+    grid.cellsWithin(position, REACH)
+      .filter((coord) => loadedCells.has(packHex(coord)));
+  },
+});
+
+Deno.bench({
+  name: "scan coins for each unloaded cell",
+  group: "prune unloaded cells",
+  baseline: true,
+  fn() {
+    for (const { q, r } of unloaded) {
+      coinList.find(({ coin }) => coin.cell.q === q && coin.cell.r === r);
+    }
+  },
+});
+
+Deno.bench({
+  name: "look each unloaded cell up",
+  group: "prune unloaded cells",
+  fn() {
+    for (const cell of unloadedCells) index.at(unpackHex(cell));
+  },
+});
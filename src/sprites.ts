@@ -0,0 +1,150 @@
+import luck from "./_luck.ts";
+
+// Sprites are an 8x8 grid of 8px blocks, giving a 64x64 image. Each block is
+// stored as a 12-bit hex color ("f80") or EMPTY_PIXEL, so the encoded string
+// stays small enough to live inside a CoinMemento.
+export const SPRITE_GRID = 8;
+export const SPRITE_SIZE = 64;
+const PIXEL_LENGTH = 3;
+const EMPTY_PIXEL = "---";
+
+export type SpritePixels = (string | null)[];
+
+export function encodeSprite(pixels: SpritePixels): string {
+  return pixels.map((pixel) => pixel ?? EMPTY_PIXEL).join("");
+}
+
+export function decodeSprite(sprite: string): SpritePixels {
+  const pixels: SpritePixels = [];
+  for (let i = 0; i < SPRITE_GRID * SPRITE_GRID; i++) {
+    const pixel = sprite.slice(i * PIXEL_LENGTH, (i + 1) * PIXEL_LENGTH);
+    pixels.push(
+      pixel.length === PIXEL_LENGTH && pixel !== EMPTY_PIXEL ? pixel : null,
+    );
+  }
+  return pixels;
+}
+
+function hslToHex12(hue: number, saturation: number, lightness: number) {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 15).toString(16);
+  };
+  return channel(0) + channel(8) + channel(4);
+}
+
+// Identicon-style sprite: the left half is rolled with luck() and mirrored
+// onto the right half, using a bright primary color and a contrasting accent.
+export function generateCoinSprite(id: string, value: number): string {
+  const seed = [id, value, "sprite"].toString();
+  const hue = luck([seed, "hue"].toString()) * 360;
+  const accentHue = (hue + 120 + luck([seed, "accent"].toString()) * 120) %
+    360;
+  const primary = hslToHex12(hue, 0.9, 0.55);
+  const accent = hslToHex12(accentHue, 0.95, 0.6);
+
+  const pixels: SpritePixels = new Array(SPRITE_GRID * SPRITE_GRID).fill(null);
+  for (let y = 0; y < SPRITE_GRID; y++) {
+    for (let x = 0; x < SPRITE_GRID / 2; x++) {
+      const roll = luck([seed, x, y].toString());
+      const color = roll < 0.45 ? primary : roll < 0.6 ? accent : null;
+      pixels[y * SPRITE_GRID + x] = color;
+      pixels[y * SPRITE_GRID + (SPRITE_GRID - 1 - x)] = color;
+    }
+  }
+  return encodeSprite(pixels);
+}
+
+export type SpriteBlendMode = "quadrants" | "palette-mix" | "mirror-overlay";
+
+const BLEND_MODES: SpriteBlendMode[] = [
+  "quadrants",
+  "palette-mix",
+  "mirror-overlay",
+];
+
+function mixColors(a: string, b: string): string {
+  let mixed = "";
+  for (let i = 0; i < PIXEL_LENGTH; i++) {
+    const channel = Math.round(
+      (parseInt(a[i], 16) + parseInt(b[i], 16)) / 2,
+    );
+    mixed += channel.toString(16);
+  }
+  return mixed;
+}
+
+function blendPixel(
+  mode: SpriteBlendMode,
+  a: SpritePixels,
+  b: SpritePixels,
+  x: number,
+  y: number,
+): string | null {
+  const index = y * SPRITE_GRID + x;
+  const half = SPRITE_GRID / 2;
+  switch (mode) {
+    case "quadrants":
+      return (x < half) === (y < half) ? a[index] : b[index];
+    case "palette-mix": {
+      const pixelA = a[index];
+      const pixelB = b[index];
+      if (pixelA && pixelB) return mixColors(pixelA, pixelB);
+      return pixelA ?? pixelB;
+    }
+    case "mirror-overlay":
+      return a[index] ?? b[(SPRITE_GRID - 1 - y) * SPRITE_GRID + x];
+  }
+}
+
+// Deterministically combine two parent sprites. The blend mode is picked by
+// luck() from the seed, so the same craft always produces the same sprite.
+export function blendSprites(
+  spriteA: string,
+  spriteB: string,
+  seed: string,
+): string {
+  const mode = BLEND_MODES[
+    Math.floor(luck([seed, "blend"].toString()) * BLEND_MODES.length)
+  ];
+  const a = decodeSprite(spriteA);
+  const b = decodeSprite(spriteB);
+  const pixels: SpritePixels = [];
+  for (let y = 0; y < SPRITE_GRID; y++) {
+    for (let x = 0; x < SPRITE_GRID; x++) {
+      pixels.push(blendPixel(mode, a, b, x, y));
+    }
+  }
+  return encodeSprite(pixels);
+}
+
+const dataUrlCache: Map<string, string> = new Map();
+
+export function spriteToDataUrl(sprite: string): string {
+  const cached = dataUrlCache.get(sprite);
+  if (cached) return cached;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = SPRITE_SIZE;
+  canvas.height = SPRITE_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+
+  const blockSize = SPRITE_SIZE / SPRITE_GRID;
+  decodeSprite(sprite).forEach((pixel, index) => {
+    if (!pixel) return;
+    ctx.fillStyle = `#${pixel}`;
+    ctx.fillRect(
+      (index % SPRITE_GRID) * blockSize,
+      Math.floor(index / SPRITE_GRID) * blockSize,
+      blockSize,
+      blockSize,
+    );
+  });
+
+  const url = canvas.toDataURL();
+  dataUrlCache.set(sprite, url);
+  return url;
+}
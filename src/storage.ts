@@ -0,0 +1,340 @@
+import type { GameState, PersistedCoinEntry } from "./serialization.ts";
+
+// Everything in a save except the persisted cells, which backends may store
+// separately and update incrementally.
+export type SaveMeta = Omit<GameState, "persistedCoins">;
+
+export interface StorageBackend {
+  readonly name: string;
+  // Returns the raw save with its cells assembled under `persistedCoins`, so
+  // it can go through migrateGameState like any other save.
+  readSave(slotId: string): Promise<unknown>;
+  // Returns the raw save without any persisted cells
+  readMeta(slotId: string): Promise<unknown>;
+  // Returns the raw persisted cell entries that fall inside one region
+  readRegion(slotId: string, region: string): Promise<unknown[]>;
+  // Writes the meta record and the given cells. When `replaceCells` is true
+  // the cells are the complete set; otherwise they are merged by cellId and
+  // the cells in `removedCells` are deleted.
+  writeSave(
+    slotId: string,
+    meta: SaveMeta,
+    cells: PersistedCoinEntry[],
+    replaceCells: boolean,
+    removedCells?: string[],
+  ): Promise<void>;
+  deleteSave(slotId: string): Promise<void>;
+  copySave(fromSlotId: string, toSlotId: string): Promise<void>;
+  // Keeps an unreadable save somewhere it will not be overwritten, and
+  // returns a description of where it went.
+  backupSave(slotId: string, raw: unknown): Promise<string>;
+  // The ids of every slot with a save, whether or not the slot index lists it
+  listSaves(): Promise<string[]>;
+}
+
+const SLOT_KEY_PREFIX = "gameState:";
+
+export function slotStorageKey(slotId: string): string {
+  return `${SLOT_KEY_PREFIX}${slotId}`;
+}
+
+// Cells are grouped into REGION_SIZE x REGION_SIZE blocks of axial coordinates
+export const REGION_SIZE = 16;
+
+export function regionOf(cellId: string): string {
+  const [q, r] = cellId.split(",").map(Number);
+  return `${Math.floor(q / REGION_SIZE)},${Math.floor(r / REGION_SIZE)}`;
+}
+
+export function regionCenter(region: string): { q: number; r: number } {
+  const [rq, rr] = region.split(",").map(Number);
+  return {
+    q: rq * REGION_SIZE + REGION_SIZE / 2,
+    r: rr * REGION_SIZE + REGION_SIZE / 2,
+  };
+}
+
+function withoutCells(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  const { persistedCoins: _, ...meta } = raw as GameState;
+  return meta;
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = "localStorage";
+
+  readSave(slotId: string): Promise<unknown> {
+    return Promise.resolve(this.parseSave(slotId));
+  }
+
+  private parseSave(slotId: string): unknown {
+    const raw = localStorage.getItem(slotStorageKey(slotId));
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw);
+    } catch (_) {
+      // Hand back the unparseable text so migration rejects it and it gets
+      // backed up, rather than being overwritten by the next save.
+      return raw;
+    }
+  }
+
+  async readMeta(slotId: string): Promise<unknown> {
+    return withoutCells(await this.readSave(slotId));
+  }
+
+  // localStorage holds each save as one JSON value, so a region read still
+  // parses the whole save; this backend only exists as a fallback.
+  async readRegion(slotId: string, region: string): Promise<unknown[]> {
+    const raw = await this.readSave(slotId) as GameState | null;
+    const entries: unknown[] = raw?.persistedCoins ?? [];
+    return entries.filter((entry) =>
+      typeof (entry as PersistedCoinEntry)?.cellId === "string" &&
+      regionOf((entry as PersistedCoinEntry).cellId) === region
+    );
+  }
+
+  // Reads and writes with no await in between, so two saves of the same slot
+  // cannot both merge into the same old copy
+  writeSave(
+    slotId: string,
+    meta: SaveMeta,
+    cells: PersistedCoinEntry[],
+    replaceCells: boolean,
+    removedCells: string[] = [],
+  ): Promise<void> {
+    const merged = new Map<string, PersistedCoinEntry>();
+    if (!replaceCells) {
+      const existing = this.parseSave(slotId) as GameState | null;
+      for (const entry of existing?.persistedCoins ?? []) {
+        merged.set(entry.cellId, entry);
+      }
+      for (const cellId of removedCells) merged.delete(cellId);
+    }
+    for (const entry of cells) {
+      merged.set(entry.cellId, entry);
+    }
+    const state: GameState = {
+      ...meta,
+      persistedCoins: Array.from(merged.values()),
+    };
+    localStorage.setItem(slotStorageKey(slotId), JSON.stringify(state));
+    return Promise.resolve();
+  }
+
+  deleteSave(slotId: string): Promise<void> {
+    localStorage.removeItem(slotStorageKey(slotId));
+    return Promise.resolve();
+  }
+
+  copySave(fromSlotId: string, toSlotId: string): Promise<void> {
+    const raw = localStorage.getItem(slotStorageKey(fromSlotId));
+    if (raw !== null) localStorage.setItem(slotStorageKey(toSlotId), raw);
+    return Promise.resolve();
+  }
+
+  backupSave(slotId: string, raw: unknown): Promise<string> {
+    const backupKey = `${slotStorageKey(slotId)}.backup-${Date.now()}`;
+    localStorage.setItem(
+      backupKey,
+      typeof raw === "string" ? raw : JSON.stringify(raw),
+    );
+    return Promise.resolve(`localStorage under "${backupKey}"`);
+  }
+
+  listSaves(): Promise<string[]> {
+    const slotIds: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(SLOT_KEY_PREFIX) && !key.includes(".backup-")) {
+        slotIds.push(key.slice(SLOT_KEY_PREFIX.length));
+      }
+    }
+    return Promise.resolve(slotIds);
+  }
+}
+
+interface StoredCell extends PersistedCoinEntry {
+  slotId: string;
+  region: string;
+}
+
+function toEntry(
+  { cellId, memento, emptiedAt }: StoredCell,
+): PersistedCoinEntry {
+  return emptiedAt === undefined
+    ? { cellId, memento }
+    : { cellId, memento, emptiedAt };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function slotCells(slotId: string): IDBKeyRange {
+  return IDBKeyRange.bound([slotId, ""], [slotId, "\uffff"]);
+}
+
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = "IndexedDB";
+  private static readonly DB_NAME = "geocoin";
+  private static readonly DB_VERSION = 1;
+
+  private constructor(
+    private db: IDBDatabase,
+    private legacy: LocalStorageBackend,
+  ) {}
+
+  static async open(): Promise<IndexedDBBackend> {
+    const request = indexedDB.open(
+      IndexedDBBackend.DB_NAME,
+      IndexedDBBackend.DB_VERSION,
+    );
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("saves");
+      const cells = db.createObjectStore("cells", {
+        keyPath: ["slotId", "cellId"],
+      });
+      cells.createIndex("byRegion", ["slotId", "region"]);
+      db.createObjectStore("backups", { autoIncrement: true });
+    };
+    return new IndexedDBBackend(
+      await promisify(request),
+      new LocalStorageBackend(),
+    );
+  }
+
+  async readSave(slotId: string): Promise<unknown> {
+    const transaction = this.db.transaction(["saves", "cells"], "readonly");
+    const metaRequest = promisify<SaveMeta | undefined>(
+      transaction.objectStore("saves").get(slotId),
+    );
+    const cellsRequest = promisify<StoredCell[]>(
+      transaction.objectStore("cells").getAll(slotCells(slotId)),
+    );
+    const [meta, cells] = await Promise.all([metaRequest, cellsRequest]);
+    if (!meta) return this.importFromLocalStorage(slotId);
+    return {
+      ...meta,
+      persistedCoins: cells.map(toEntry),
+    };
+  }
+
+  async readMeta(slotId: string): Promise<unknown> {
+    const transaction = this.db.transaction("saves", "readonly");
+    const meta = await promisify<SaveMeta | undefined>(
+      transaction.objectStore("saves").get(slotId),
+    );
+    return meta ?? withoutCells(await this.importFromLocalStorage(slotId));
+  }
+
+  async readRegion(slotId: string, region: string): Promise<unknown[]> {
+    const transaction = this.db.transaction("cells", "readonly");
+    const cells = await promisify<StoredCell[]>(
+      transaction.objectStore("cells").index("byRegion").getAll([
+        slotId,
+        region,
+      ]),
+    );
+    return cells.map(toEntry);
+  }
+
+  // Saves written before this backend existed live in localStorage. They are
+  // copied over in full on first read so later incremental writes are safe.
+  private async importFromLocalStorage(slotId: string): Promise<unknown> {
+    const raw = await this.legacy.readSave(slotId);
+    if (!raw || typeof raw !== "object") return raw;
+    const { persistedCoins, ...meta } = raw as GameState;
+    await this.writeSave(slotId, meta, persistedCoins ?? [], true);
+    await this.legacy.deleteSave(slotId);
+    return raw;
+  }
+
+  async writeSave(
+    slotId: string,
+    meta: SaveMeta,
+    cells: PersistedCoinEntry[],
+    replaceCells: boolean,
+    removedCells: string[] = [],
+  ): Promise<void> {
+    const transaction = this.db.transaction(["saves", "cells"], "readwrite");
+    transaction.objectStore("saves").put(meta, slotId);
+    const cellStore = transaction.objectStore("cells");
+    if (replaceCells) {
+      cellStore.delete(slotCells(slotId));
+    } else {
+      for (const cellId of removedCells) cellStore.delete([slotId, cellId]);
+    }
+    for (const entry of cells) {
+      const stored: StoredCell = {
+        ...entry,
+        slotId,
+        region: regionOf(entry.cellId),
+      };
+      cellStore.put(stored);
+    }
+    await completion(transaction);
+  }
+
+  // Also drops a copy still waiting to be imported, or listSaves would find it
+  async deleteSave(slotId: string): Promise<void> {
+    const transaction = this.db.transaction(["saves", "cells"], "readwrite");
+    transaction.objectStore("saves").delete(slotId);
+    transaction.objectStore("cells").delete(slotCells(slotId));
+    await completion(transaction);
+    await this.legacy.deleteSave(slotId);
+  }
+
+  async copySave(fromSlotId: string, toSlotId: string): Promise<void> {
+    const raw = await this.readSave(fromSlotId) as GameState | null;
+    if (!raw) return;
+    const { persistedCoins, ...meta } = raw;
+    await this.writeSave(toSlotId, meta, persistedCoins ?? [], true);
+  }
+
+  async backupSave(slotId: string, raw: unknown): Promise<string> {
+    const transaction = this.db.transaction("backups", "readwrite");
+    const key = await promisify(
+      transaction.objectStore("backups").add({
+        slotId,
+        savedAt: Date.now(),
+        raw,
+      }),
+    );
+    return `the IndexedDB "backups" store (entry ${key})`;
+  }
+
+  // Includes saves still waiting to be imported from localStorage
+  async listSaves(): Promise<string[]> {
+    const transaction = this.db.transaction("saves", "readonly");
+    const keys = await promisify(transaction.objectStore("saves").getAllKeys());
+    const slotIds = new Set(keys.map(String));
+    for (const slotId of await this.legacy.listSaves()) slotIds.add(slotId);
+    return Array.from(slotIds);
+  }
+}
+
+// Prefer IndexedDB, but keep playing on localStorage where it is unavailable
+// (e.g. some private browsing modes).
+export async function openStorageBackend(): Promise<StorageBackend> {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return await IndexedDBBackend.open();
+    } catch (error) {
+      console.warn("IndexedDB unavailable, using localStorage:", error);
+    }
+  }
+  return new LocalStorageBackend();
+}
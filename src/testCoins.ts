@@ -0,0 +1,25 @@
+// Shared by the tests: a grid around null island and plain coins lying on it
+import type { CoinKind } from "./coinKinds.ts";
+import type { Coin } from "./generation.ts";
+import { CellInstance, SharedCellData } from "./grid.ts";
+
+export const testGrid = new SharedCellData({ lat: 0, lng: 0 });
+
+export function coinAt(
+  q: number,
+  r: number,
+  value: number = 1,
+  kind: CoinKind = "plain",
+  grid: SharedCellData = testGrid,
+): Coin {
+  const cell = new CellInstance(q, r, grid);
+  return {
+    id: `coin-${cell.id}`,
+    kind,
+    value,
+    position: cell.center,
+    cell,
+    history: [],
+    sprite: "",
+  };
+}
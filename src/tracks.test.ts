@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import {
+  parseTrack,
+  ReplayState,
+  serializeTrack,
+  TrackParseError,
+  TrackPlayer,
+  TrackPoint,
+  TrackRecorder,
+} from "./tracks.ts";
+
+const GPX = `<?xml version="1.0"?>
+<gpx version="1.1" creator="test">
+  <wpt lat="9" lon="9"><name>ignored</name></wpt>
+  <trk><trkseg>
+    <trkpt lat="36.9979" lon="-122.0570"><time>2025-01-01T00:00:05Z</time></trkpt>
+    <trkpt lon="-122.0571" lat="36.9980"><ele>12</ele><time>2025-01-01T00:00:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+Deno.test("parseTrack reads GPX track points sorted by time", () => {
+  const points = parseTrack(GPX);
+  assert.deepEqual(points, [
+    {
+      lat: 36.998,
+      lng: -122.0571,
+      timestamp: Date.parse("2025-01-01T00:00:00Z"),
+    },
+    {
+      lat: 36.9979,
+      lng: -122.057,
+      timestamp: Date.parse("2025-01-01T00:00:05Z"),
+    },
+  ]);
+});
+
+Deno.test("parseTrack reads JSON lists and fills missing times", () => {
+  const points = parseTrack(JSON.stringify({
+    points: [
+      { lat: 1, lon: 2 },
+      { lat: 3, lng: 4 },
+      { lat: 5, lng: 6, time: "1970-01-01T00:00:10Z" },
+    ],
+  }));
+  assert.deepEqual(points.map((p) => p.timestamp), [0, 1000, 10000]);
+  assert.deepEqual(points[0], { lat: 1, lng: 2, timestamp: 0 });
+});
+
+Deno.test("parseTrack rejects empty or malformed tracks", () => {
+  assert.throws(() => parseTrack("[]"), TrackParseError);
+  assert.throws(() => parseTrack("not a track"), TrackParseError);
+  assert.throws(() => parseTrack('[{"lat": "x", "lng": 1}]'), TrackParseError);
+  assert.throws(() => parseTrack("<gpx></gpx>"), TrackParseError);
+});
+
+Deno.test("serializeTrack round-trips through parseTrack", () => {
+  const points: TrackPoint[] = [
+    { lat: 1, lng: 2, timestamp: 100 },
+    { lat: 1.5, lng: 2.5, timestamp: 700, accuracy: 8 },
+  ];
+  assert.deepEqual(parseTrack(serializeTrack(points)), points);
+});
+
+Deno.test("TrackPlayer replays every point and stops at the end", async () => {
+  const eventBus = new EventTarget();
+  const points: TrackPoint[] = [
+    { lat: 0, lng: 0, timestamp: 0 },
+    { lat: 1, lng: 1, timestamp: 20 },
+    { lat: 2, lng: 2, timestamp: 40 },
+  ];
+  const visited: number[] = [];
+  eventBus.addEventListener("replay-position", (event) => {
+    visited.push((event as CustomEvent).detail.lat);
+  });
+  const finished = new Promise<void>((resolve) => {
+    eventBus.addEventListener("replay-state-changed", (event) => {
+      const state = (event as CustomEvent).detail as ReplayState;
+      if (!state.playing && state.index === points.length - 1) resolve();
+    });
+  });
+
+  const player = new TrackPlayer(points, eventBus, 4);
+  player.play();
+  assert.equal(player.state.playing, true);
+  await finished;
+  assert.deepEqual(visited, [0, 1, 2]);
+  assert.equal(player.state.playing, false);
+});
+
+Deno.test("TrackPlayer pause stops further positions", () => {
+  const eventBus = new EventTarget();
+  let moves = 0;
+  eventBus.addEventListener("replay-position", () => moves++);
+  const player = new TrackPlayer([
+    { lat: 0, lng: 0, timestamp: 0 },
+    { lat: 1, lng: 1, timestamp: 1000 },
+  ], eventBus);
+  player.play();
+  player.pause();
+  assert.equal(moves, 1);
+  assert.equal(player.state.playing, false);
+});
+
+Deno.test("TrackRecorder only keeps points while recording", () => {
+  const recorder = new TrackRecorder();
+  recorder.record({ lat: 0, lng: 0, timestamp: 0 });
+  recorder.start();
+  recorder.record({ lat: 1, lng: 1, timestamp: 1 });
+  assert.equal(recorder.isRecording, true);
+  assert.deepEqual(recorder.stop(), [{ lat: 1, lng: 1, timestamp: 1 }]);
+  recorder.record({ lat: 2, lng: 2, timestamp: 2 });
+  assert.equal(recorder.pointCount, 1);
+});
@@ -0,0 +1,256 @@
+import type { GeoPoint } from "./grid.ts";
+
+// A recorded walk: positions in the order they were visited, with the time
+// (ms since the epoch) each one was reached. Recorded GPS sessions also keep
+// each fix's accuracy so a replay goes through the same filtering.
+export interface TrackPoint extends GeoPoint {
+  timestamp: number;
+  accuracy?: number;
+}
+
+export class TrackParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackParseError";
+  }
+}
+
+// Points without a time are spaced this far apart
+const DEFAULT_STEP_MS = 1000;
+
+function toTimestamp(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return null;
+}
+
+function finishTrack(
+  points: {
+    lat: number;
+    lng: number;
+    timestamp: number | null;
+    accuracy?: number;
+  }[],
+): TrackPoint[] {
+  if (points.length === 0) {
+    throw new TrackParseError("Track has no points");
+  }
+  const track: TrackPoint[] = [];
+  for (const [index, point] of points.entries()) {
+    if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) {
+      throw new TrackParseError(`Point ${index} has no valid lat/lng`);
+    }
+    const previous = track.at(-1)?.timestamp;
+    const timestamp = point.timestamp ??
+      (previous === undefined ? 0 : previous + DEFAULT_STEP_MS);
+    const trackPoint: TrackPoint = {
+      lat: point.lat,
+      lng: point.lng,
+      timestamp,
+    };
+    if (point.accuracy !== undefined && Number.isFinite(point.accuracy)) {
+      trackPoint.accuracy = point.accuracy;
+    }
+    track.push(trackPoint);
+  }
+  return track.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const GPX_POINT = /<(trkpt|rtept|wpt)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+function gpxAttribute(attributes: string, name: string): number {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(
+    attributes,
+  );
+  return match ? Number(match[1]) : NaN;
+}
+
+// Reads track points (or route/way points when there is no track) from GPX
+function parseGpx(text: string): TrackPoint[] {
+  const found = Array.from(text.matchAll(GPX_POINT));
+  const trackPoints = found.filter((m) => m[1] === "trkpt");
+  const chosen = trackPoints.length > 0 ? trackPoints : found;
+  return finishTrack(chosen.map(([, , attributes, body]) => ({
+    lat: gpxAttribute(attributes, "lat"),
+    lng: gpxAttribute(attributes, "lon"),
+    timestamp: toTimestamp(/<time>([^<]*)<\/time>/.exec(body ?? "")?.[1]),
+  })));
+}
+
+// Accepts a list of points, or an object with a `points` list. Each point
+// needs lat and lng (or lon); timestamp (or time) may be ms or an ISO string,
+// and accuracy is optional.
+function parseJsonTrack(text: string): TrackPoint[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new TrackParseError(`Track is neither GPX nor JSON: ${error}`);
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { points?: unknown } | null)?.points;
+  if (!Array.isArray(list)) {
+    throw new TrackParseError("Expected a list of points");
+  }
+  return finishTrack(list.map((entry) => {
+    const point = (entry ?? {}) as Record<string, unknown>;
+    return {
+      lat: Number(point.lat),
+      lng: Number(point.lng ?? point.lon),
+      timestamp: toTimestamp(point.timestamp ?? point.time),
+      ...(typeof point.accuracy === "number"
+        ? { accuracy: point.accuracy }
+        : {}),
+    };
+  }));
+}
+
+export function parseTrack(text: string): TrackPoint[] {
+  return text.trimStart().startsWith("<")
+    ? parseGpx(text)
+    : parseJsonTrack(text);
+}
+
+export function serializeTrack(points: TrackPoint[]): string {
+  return JSON.stringify(
+    points.map(({ timestamp, lat, lng, accuracy }) => ({
+      timestamp,
+      lat,
+      lng,
+      accuracy,
+    })),
+    null,
+    2,
+  );
+}
+
+export interface ReplayState {
+  playing: boolean;
+  index: number;
+  length: number;
+  speed: number;
+  loop: boolean;
+}
+
+// Plays a track back in (scaled) real time. Each point is announced as a
+// "replay-position" event, and every change of state as
+// "replay-state-changed".
+export class TrackPlayer {
+  private index = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private points: TrackPoint[],
+    private eventBus: EventTarget,
+    private speed: number = 1,
+    private loop: boolean = false,
+  ) {}
+
+  get state(): ReplayState {
+    return {
+      playing: this.timer !== null,
+      index: this.index,
+      length: this.points.length,
+      speed: this.speed,
+      loop: this.loop,
+    };
+  }
+
+  // Moves to a point without playing, e.g. to show where a track starts
+  seek(index: number): void {
+    this.index = Math.max(0, Math.min(index, this.points.length - 1));
+    this.emitPosition();
+    this.emitState();
+  }
+
+  play(): void {
+    if (this.timer !== null || this.points.length === 0) return;
+    if (this.index >= this.points.length - 1 && !this.loop) this.index = 0;
+    this.emitPosition();
+    this.scheduleNext();
+    this.emitState();
+  }
+
+  pause(): void {
+    if (this.timer === null) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.emitState();
+  }
+
+  // Takes effect from the next step
+  setSpeed(speed: number): void {
+    if (speed > 0) this.speed = speed;
+    this.emitState();
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+    this.emitState();
+  }
+
+  private scheduleNext(): void {
+    let next = this.index + 1;
+    let gap = 0;
+    if (next < this.points.length) {
+      gap = this.points[next].timestamp - this.points[this.index].timestamp;
+    } else if (this.loop && this.points.length > 1) {
+      next = 0;
+      gap = DEFAULT_STEP_MS;
+    } else {
+      this.timer = null;
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.index = next;
+      this.emitPosition();
+      this.scheduleNext();
+      this.emitState();
+    }, Math.max(0, gap) / this.speed);
+  }
+
+  private emitPosition(): void {
+    const point = this.points[this.index];
+    if (!point) return;
+    this.eventBus.dispatchEvent(
+      new CustomEvent("replay-position", { detail: { ...point } }),
+    );
+  }
+
+  private emitState(): void {
+    this.eventBus.dispatchEvent(
+      new CustomEvent("replay-state-changed", { detail: this.state }),
+    );
+  }
+}
+
+export class TrackRecorder {
+  private points: TrackPoint[] = [];
+  private recording = false;
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get pointCount(): number {
+    return this.points.length;
+  }
+
+  start(): void {
+    this.points = [];
+    this.recording = true;
+  }
+
+  record(point: TrackPoint): void {
+    if (this.recording) this.points.push({ ...point });
+  }
+
+  stop(): TrackPoint[] {
+    this.recording = false;
+    return this.points;
+  }
+}
@@ -1,25 +1,96 @@
 import { Map } from "leaflet";
+import type { Biome } from "./biomes.ts";
+import { createCoinSpriteImage } from "./coinMarkers.ts";
+import { COIN_KINDS, coinLabel } from "./coinKinds.ts";
 import { config } from "./config.ts";
-import { Coin } from "./generation.ts";
+import { Coin, CoinAction, CoinActionKind } from "./generation.ts";
+import type { HexDirection } from "./hex.ts";
+import { describeHistoryEvent } from "./history.ts";
+import { KeyBindings, keyLabel } from "./input.ts";
+import type { OverlayRenderedEventDetail } from "./overlayRenderer.ts";
 import { Inventory } from "./player.ts";
+import type { SaveSlot } from "./saveSlots.ts";
+import type { GameState, SaveSummary } from "./serialization.ts";
+import type { ReplayState } from "./tracks.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  randomSeed,
+  VALUE_DISTRIBUTION_PRESETS,
+  WorldSettings,
+} from "./worldSettings.ts";
 
 let inventoryDiv: HTMLElement;
 
-export function createInventoryUI(): HTMLElement {
+export function createInventoryUI(eventBus: EventTarget): HTMLElement {
   if (inventoryDiv) return inventoryDiv;
   const container = document.createElement("div");
   container.id = "inventory";
-  const item = document.createElement("div");
-  item.id = "inventory-item";
-  item.textContent = "Empty";
-  container.appendChild(item);
+  // Slots are dragged onto each other to reorder them
+  container.addEventListener("dragstart", (event) => {
+    const slot = (event.target as HTMLElement).closest<HTMLElement>(
+      ".inventory-slot",
+    );
+    event.dataTransfer?.setData("text/plain", slot?.dataset.slot ?? "");
+  });
+  container.addEventListener("dragover", (event) => event.preventDefault());
+  container.addEventListener("drop", (event) => {
+    event.preventDefault();
+    const target = (event.target as HTMLElement).closest<HTMLElement>(
+      ".inventory-slot",
+    );
+    const from = event.dataTransfer?.getData("text/plain");
+    if (!target || !from) return;
+    eventBus.dispatchEvent(
+      new CustomEvent("move-slot", {
+        detail: { from: Number(from), to: Number(target.dataset.slot) },
+      }),
+    );
+  });
+  container.addEventListener("click", (event) => {
+    const slot = (event.target as HTMLElement).closest<HTMLElement>(
+      ".inventory-slot",
+    );
+    if (!slot) return;
+    eventBus.dispatchEvent(
+      new CustomEvent("select-slot", {
+        detail: { slot: Number(slot.dataset.slot) },
+      }),
+    );
+  });
   inventoryDiv = container as HTMLElement;
   return container;
 }
 
-export function updateInventoryUI(inventory: Inventory): void {
-  const animation = () => {
-    item.animate(
+function createSlotContents(coin: Coin | null): Node[] {
+  if (!coin) return [document.createTextNode("Empty")];
+  const value = document.createElement("span");
+  value.className = "coin-value";
+  value.textContent = coinLabel(coin);
+  return [createCoinSpriteImage(coin), value];
+}
+
+// Only the slots listed in `changedSlots` bounce
+export function updateInventoryUI(
+  inventory: Inventory,
+  changedSlots: number[] = [],
+): void {
+  const multiSlot = inventory.capacity > 1;
+  inventoryDiv.classList.toggle("multi-slot", multiSlot);
+  const slots = inventory.slots.map((coin, index) => {
+    const slot = document.createElement("div");
+    slot.className = "inventory-slot";
+    slot.dataset.slot = String(index);
+    slot.classList.toggle(
+      "active",
+      multiSlot && index === inventory.activeSlot,
+    );
+    slot.draggable = multiSlot;
+    slot.replaceChildren(...createSlotContents(coin));
+    return slot;
+  });
+  inventoryDiv.replaceChildren(...slots);
+  for (const index of changedSlots) {
+    slots[index]?.animate(
       [
         { transform: "scale(0.5)" },
         { transform: "scale(1.2)" },
@@ -30,37 +101,155 @@ export function updateInventoryUI(inventory: Inventory): void {
         easing: "ease-out",
       },
     );
-  };
+  }
+}
+
+function formatHistoryTime(timestamp: number): string {
+  return timestamp > 0 ? new Date(timestamp).toLocaleString() : "Unknown time";
+}
 
-  const item = inventoryDiv.querySelector("#inventory-item")!;
-  if (inventory.hasItem()) {
-    item.textContent = `${inventory.coin!.value}`;
-    animation();
-  } else {
-    item.textContent = "Empty";
-    animation();
+// Built from nodes: history text can come from an imported save
+function createHistoryTimeline(coin: Coin): HTMLElement[] {
+  return coin.history.map((event) => {
+    const item = document.createElement("li");
+    const time = document.createElement("time");
+    time.textContent = formatHistoryTime(event.timestamp);
+    const description = document.createElement("span");
+    description.textContent = describeHistoryEvent(event);
+    item.append(time, description);
+    return item;
+  }).reverse();
+}
+
+const COIN_ACTION_LABELS: Record<CoinActionKind, string> = {
+  "pick-up": "Pick Up",
+  swap: "Swap",
+  craft: "Craft",
+  use: "Use",
+};
+
+const COIN_ACTION_EVENTS: Record<CoinActionKind, string> = {
+  "pick-up": "pick-up-coin",
+  swap: "swap-coin",
+  craft: "craft-coin",
+  use: "use-coin",
+};
+
+function createCoinCard(coin: Coin, title: string): HTMLElement {
+  const card = document.createElement("div");
+  card.className = "coin-card";
+  const kind = COIN_KINDS[coin.kind];
+  card.innerHTML = `
+    <h4>${title}</h4>
+    <p>${kind.usable ? kind.label : `Value: ${coinLabel(coin)}`}</p>
+    ${
+    coin.kind === "plain"
+      ? ""
+      : `<p class="coin-kind-description">${kind.description}</p>`
   }
+  `;
+  card.insertBefore(createCoinSpriteImage(coin), card.children[1]!);
+  return card;
 }
 
-export function createCoinPopup(map: Map, coin: Coin): HTMLElement {
+export function createCoinPopup(
+  map: Map,
+  coin: Coin,
+  inventory: Inventory,
+  coinActions: CoinAction[],
+  eventBus: EventTarget,
+): HTMLElement {
+  const heldCoin = inventory.coin;
   const container = document.createElement("div");
   container.className = "coin-popup";
   container.innerHTML = `
-    <h3>Coin</h3>
-    <p>Value: ${coin.value}</p>
+    <div class="coin-compare"></div>
     <p>Position: (${coin.position.lat.toFixed(5)}, ${
     coin.position.lng.toFixed(5)
   })</p>
-  <div class="coin-history">
-    <h4>History</h4>
-    <ul>
-      ${coin.history.map((entry) => `<li>${entry}</li>`).reverse().join("")}
-    </ul>
-  </div>
+    <div class="coin-actions"></div>
+    <div class="coin-history">
+      <h4>History</h4>
+      <ol></ol>
+    </div>
   `;
+
+  container.querySelector(".coin-history ol")!.append(
+    ...createHistoryTimeline(coin),
+  );
+  const compare = container.querySelector(".coin-compare")!;
+  compare.append(createCoinCard(coin, "Coin"));
+  if (heldCoin) {
+    compare.append(createCoinCard(heldCoin, "Holding"));
+  }
+  // Picks the slot to swap or craft with; the popup reopens with its actions
+  if (inventory.capacity > 1) {
+    const label = document.createElement("label");
+    label.className = "coin-slot-choice";
+    label.textContent = "Use slot ";
+    const select = document.createElement("select");
+    select.innerHTML = inventory.slots.map((slotCoin, index) =>
+      `<option value="${index}">${index + 1}: ${
+        slotCoin ? coinLabel(slotCoin) : "empty"
+      }</option>`
+    ).join("");
+    select.value = String(inventory.activeSlot);
+    select.onchange = () => {
+      eventBus.dispatchEvent(
+        new CustomEvent("select-slot", {
+          detail: { slot: Number(select.value) },
+        }),
+      );
+      eventBus.dispatchEvent(
+        new CustomEvent("coin-clicked", { detail: { coin } }),
+      );
+    };
+    label.append(select);
+    compare.after(label);
+  }
+
+  const actions = container.querySelector(".coin-actions")!;
+  for (const action of coinActions) {
+    const button = document.createElement("button");
+    button.textContent = action.recipe?.label ??
+      COIN_ACTION_LABELS[action.kind];
+    button.disabled = !action.enabled;
+    if (action.reason) {
+      button.title = action.reason;
+    } else if (action.recipe) {
+      button.title = action.recipe.description;
+    }
+    button.onclick = () => {
+      eventBus.dispatchEvent(
+        new CustomEvent(COIN_ACTION_EVENTS[action.kind], {
+          detail: { coin, recipeId: action.recipe?.id },
+        }),
+      );
+    };
+    actions.append(button);
+  }
+  const cancelButton = document.createElement("button");
+  cancelButton.textContent = "Cancel";
+  cancelButton.className = "cancel";
+  cancelButton.onclick = () => {
+    eventBus.dispatchEvent(new CustomEvent("close-coin-popup"));
+  };
+  actions.append(cancelButton);
+
+  const disabled = coinActions.filter((action) => !action.enabled);
+  if (disabled.length > 0) {
+    const reasonList = document.createElement("ul");
+    reasonList.className = "coin-action-reasons";
+    reasonList.innerHTML = disabled
+      .map((action) =>
+        `<li>${COIN_ACTION_LABELS[action.kind]}: ${action.reason}</li>`
+      )
+      .join("");
+    actions.after(reasonList);
+  }
+
   map.openPopup(container, coin.position, {
     closeButton: false,
-    autoClose: false,
     closeOnClick: true,
   });
   return container;
@@ -136,13 +325,113 @@ export function createSettingsButton(eventBus: EventTarget): HTMLElement {
 export function createSettingsWindow(eventBus: EventTarget): HTMLElement {
   const container = document.createElement("div");
   container.className = "settings-window";
+  const valueOptions = Object.entries(VALUE_DISTRIBUTION_PRESETS)
+    .map(([id, { label }]) => `<option value="${id}">${label}</option>`)
+    .join("");
   container.innerHTML = `
     <button class="close-btn">×</button>
     <h3>Settings</h3>
     <button id="new-game">New Game</button>
+    <details class="world-options">
+      <summary>New world options</summary>
+      <label>Seed <input type="text" id="world-seed" placeholder="random"></label>
+      <label>
+        Cell size
+        <select id="world-cell-size">
+          <option value="3">Small (3 m)</option>
+          <option value="${DEFAULT_WORLD_SETTINGS.cellSize}">Normal (${DEFAULT_WORLD_SETTINGS.cellSize} m)</option>
+          <option value="11">Large (11 m)</option>
+        </select>
+      </label>
+      <label>
+        Coins in
+        <input type="number" id="world-spawn-rate" min="1" max="100" step="1">
+        % of cells
+      </label>
+      <label>
+        Coin values
+        <select id="world-values">
+          ${valueOptions}
+        </select>
+      </label>
+      <label>
+        Reach
+        <input type="number" id="world-reach" min="10" max="500" step="10"> m
+      </label>
+      <label>
+        Load radius
+        <input type="number" id="world-load-radius" min="5" max="60" step="1">
+        cells
+      </label>
+      <label>
+        Carry
+        <select id="world-inventory">
+          <option value="1">one coin (classic)</option>
+          <option value="3">three coins</option>
+          <option value="6">six coins</option>
+        </select>
+      </label>
+      <label>
+        Emptied cells regrow after
+        <select id="world-regrow">
+          <option value="600000">about 10 minutes</option>
+          <option value="1800000">about 30 minutes</option>
+          <option value="7200000">about 2 hours</option>
+          <option value="never">never</option>
+        </select>
+      </label>
+    </details>
     <label>
       <input type="checkbox" id="debug-mode"> Debug Mode (UI Movement)
     </label>
+    <h4>Controls</h4>
+    <p class="hint">
+      In UI movement mode, move with these keys, a gamepad stick or its d-pad,
+      or click a cell on the map to walk there.
+    </p>
+    <ul id="key-bindings"></ul>
+    <button id="reset-key-bindings" class="secondary">Reset controls</button>
+    <label>
+      Walking pace
+      <select id="travel-step">
+        <option value="100">Fast</option>
+        <option value="250">Normal</option>
+        <option value="500">Slow</option>
+        <option value="1000">Stroll</option>
+      </select>
+    </label>
+    <label>
+      <input type="checkbox" id="show-timings"> Show map rendering timings
+    </label>
+    <h4>Save Slots</h4>
+    <ul id="save-slots"></ul>
+    <h4>Save File</h4>
+    <label>
+      <input type="checkbox" id="export-compressed"> Compress for sharing
+    </label>
+    <button id="export-save">Export save</button>
+    <button id="import-save">Import save</button>
+    <input type="file" id="import-file" accept=".json,.txt" hidden>
+    <h4>Track Replay</h4>
+    <button id="load-track">Load track (GPX or JSON)</button>
+    <input type="file" id="track-file" accept=".gpx,.json" hidden>
+    <div id="replay-controls" hidden>
+      <p id="replay-status"></p>
+      <button id="replay-toggle">Play</button>
+      <label>
+        Speed
+        <select id="replay-speed">
+          <option value="0.5">0.5×</option>
+          <option value="1" selected>1×</option>
+          <option value="2">2×</option>
+          <option value="5">5×</option>
+          <option value="10">10×</option>
+        </select>
+      </label>
+      <label><input type="checkbox" id="replay-loop"> Loop</label>
+      <button id="replay-stop" class="secondary">Stop replay</button>
+    </div>
+    <button id="record-track">Start recording GPS</button>
   `;
 
   const closeBtn = container.querySelector(".close-btn")! as HTMLButtonElement;
@@ -150,9 +439,50 @@ export function createSettingsWindow(eventBus: EventTarget): HTMLElement {
     container.style.display = "none";
   };
 
+  const field = (id: string) =>
+    container.querySelector(`#${id}`)! as HTMLInputElement | HTMLSelectElement;
+  field("world-cell-size").value = String(DEFAULT_WORLD_SETTINGS.cellSize);
+  field("world-spawn-rate").value = String(
+    DEFAULT_WORLD_SETTINGS.spawnProbability * 100,
+  );
+  field("world-reach").value = String(DEFAULT_WORLD_SETTINGS.reach);
+  field("world-load-radius").value = String(DEFAULT_WORLD_SETTINGS.loadRadius);
+  field("world-regrow").value = String(DEFAULT_WORLD_SETTINGS.regrowMs);
+  field("world-inventory").value = String(
+    DEFAULT_WORLD_SETTINGS.inventorySlots,
+  );
+
   const newGameBtn = container.querySelector("#new-game")! as HTMLButtonElement;
   newGameBtn.onclick = () => {
-    eventBus.dispatchEvent(new CustomEvent("new-game"));
+    // Out-of-range entries fall back to the defaults
+    const number = (id: string, fallback: number) => {
+      const input = field(id) as HTMLInputElement;
+      return input.checkValidity() && input.value !== ""
+        ? Number(input.value)
+        : fallback;
+    };
+    const world: WorldSettings = {
+      seed: field("world-seed").value.trim() || randomSeed(),
+      cellSize: Number(field("world-cell-size").value),
+      projection: DEFAULT_WORLD_SETTINGS.projection,
+      spawnProbability: number(
+        "world-spawn-rate",
+        DEFAULT_WORLD_SETTINGS.spawnProbability * 100,
+      ) / 100,
+      valueDistribution: structuredClone(
+        VALUE_DISTRIBUTION_PRESETS[field("world-values").value].distribution,
+      ),
+      reach: number("world-reach", DEFAULT_WORLD_SETTINGS.reach),
+      loadRadius: number(
+        "world-load-radius",
+        DEFAULT_WORLD_SETTINGS.loadRadius,
+      ),
+      regrowMs: field("world-regrow").value === "never"
+        ? null
+        : Number(field("world-regrow").value),
+      inventorySlots: Number(field("world-inventory").value),
+    };
+    eventBus.dispatchEvent(new CustomEvent("new-game", { detail: { world } }));
     container.style.display = "none";
   };
 
@@ -168,11 +498,362 @@ export function createSettingsWindow(eventBus: EventTarget): HTMLElement {
     );
   };
 
+  const resetBindingsBtn = container.querySelector(
+    "#reset-key-bindings",
+  )! as HTMLButtonElement;
+  resetBindingsBtn.onclick = () => {
+    eventBus.dispatchEvent(new CustomEvent("reset-key-bindings"));
+  };
+
+  const travelStepSelect = container.querySelector(
+    "#travel-step",
+  )! as HTMLSelectElement;
+  travelStepSelect.value = String(config.travelStepMs);
+  travelStepSelect.onchange = () => {
+    eventBus.dispatchEvent(
+      new CustomEvent("set-travel-step", {
+        detail: { stepMs: Number(travelStepSelect.value) },
+      }),
+    );
+  };
+
+  const timingsCheckbox = container.querySelector(
+    "#show-timings",
+  )! as HTMLInputElement;
+  timingsCheckbox.onchange = () => {
+    eventBus.dispatchEvent(
+      new CustomEvent("toggle-timings", {
+        detail: { visible: timingsCheckbox.checked },
+      }),
+    );
+  };
+
+  const compressedCheckbox = container.querySelector(
+    "#export-compressed",
+  )! as HTMLInputElement;
+  const exportBtn = container.querySelector(
+    "#export-save",
+  )! as HTMLButtonElement;
+  exportBtn.onclick = () => {
+    eventBus.dispatchEvent(
+      new CustomEvent("export-save", {
+        detail: { encoding: compressedCheckbox.checked ? "base64" : "json" },
+      }),
+    );
+  };
+
+  const importFile = container.querySelector(
+    "#import-file",
+  )! as HTMLInputElement;
+  const importBtn = container.querySelector(
+    "#import-save",
+  )! as HTMLButtonElement;
+  importBtn.onclick = () => importFile.click();
+  importFile.onchange = () => {
+    const file = importFile.files?.[0];
+    importFile.value = "";
+    if (!file) return;
+    eventBus.dispatchEvent(
+      new CustomEvent("import-save", { detail: { file } }),
+    );
+  };
+
+  const trackFile = container.querySelector(
+    "#track-file",
+  )! as HTMLInputElement;
+  const speedSelect = container.querySelector(
+    "#replay-speed",
+  )! as HTMLSelectElement;
+  const loopCheckbox = container.querySelector(
+    "#replay-loop",
+  )! as HTMLInputElement;
+  (container.querySelector("#load-track")! as HTMLButtonElement).onclick = () =>
+    trackFile.click();
+  trackFile.onchange = () => {
+    const file = trackFile.files?.[0];
+    trackFile.value = "";
+    if (!file) return;
+    eventBus.dispatchEvent(
+      new CustomEvent("load-track", {
+        detail: {
+          file,
+          speed: Number(speedSelect.value),
+          loop: loopCheckbox.checked,
+        },
+      }),
+    );
+  };
+  (container.querySelector("#replay-toggle")! as HTMLButtonElement).onclick =
+    () => eventBus.dispatchEvent(new CustomEvent("toggle-replay"));
+  speedSelect.onchange = () => {
+    eventBus.dispatchEvent(
+      new CustomEvent("set-replay-speed", {
+        detail: { speed: Number(speedSelect.value) },
+      }),
+    );
+  };
+  loopCheckbox.onchange = () => {
+    eventBus.dispatchEvent(
+      new CustomEvent("set-replay-loop", {
+        detail: { loop: loopCheckbox.checked },
+      }),
+    );
+  };
+  (container.querySelector("#replay-stop")! as HTMLButtonElement).onclick =
+    () => eventBus.dispatchEvent(new CustomEvent("stop-replay"));
+  (container.querySelector("#record-track")! as HTMLButtonElement).onclick =
+    () => eventBus.dispatchEvent(new CustomEvent("toggle-recording"));
+
   settingsWindow = container;
   settingsWindow.style.display = "none";
+  renderKeyBindings(config.keyBindings, eventBus);
   return container;
 }
 
+const DIRECTION_LABELS: [HexDirection, string][] = [
+  ["northwest", "↖ Northwest"],
+  ["north", "↑ North"],
+  ["northeast", "↗ Northeast"],
+  ["southwest", "↙ Southwest"],
+  ["south", "↓ South"],
+  ["southeast", "↘ Southeast"],
+];
+
+// Clicking a binding waits for the next key press; Escape cancels
+export function renderKeyBindings(
+  bindings: KeyBindings,
+  eventBus: EventTarget,
+): void {
+  const list = settingsWindow?.querySelector("#key-bindings");
+  if (!list) return;
+
+  list.replaceChildren(...DIRECTION_LABELS.map(([direction, label]) => {
+    const item = document.createElement("li");
+    item.innerHTML = `<span>${label}</span><button></button>`;
+    const button = item.querySelector("button")!;
+    button.textContent = keyLabel(bindings[direction]);
+    button.onclick = () => {
+      button.textContent = "Press a key…";
+      const capture = (event: KeyboardEvent) => {
+        // Keep the key from also moving the player
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        globalThis.removeEventListener("keydown", capture, true);
+        if (event.code === "Escape") {
+          button.textContent = keyLabel(bindings[direction]);
+          return;
+        }
+        eventBus.dispatchEvent(
+          new CustomEvent("rebind-key", {
+            detail: { direction, code: event.code },
+          }),
+        );
+      };
+      globalThis.addEventListener("keydown", capture, true);
+    };
+    return item;
+  }));
+}
+
+// Pass null once no track is loaded
+export function updateReplayControls(state: ReplayState | null): void {
+  const controls = settingsWindow?.querySelector(
+    "#replay-controls",
+  ) as HTMLElement | null;
+  if (!controls) return;
+  controls.hidden = state === null;
+  if (!state) return;
+  controls.querySelector("#replay-status")!.textContent = `Point ${
+    state.index + 1
+  } of ${state.length}${state.playing ? " · playing" : ""}`;
+  controls.querySelector("#replay-toggle")!.textContent = state.playing
+    ? "Pause"
+    : "Play";
+}
+
+export function updateRecordButton(recording: boolean): void {
+  const button = settingsWindow?.querySelector("#record-track");
+  if (button) {
+    button.textContent = recording
+      ? "Stop recording and download"
+      : "Start recording GPS";
+  }
+}
+
+function describeSlot(slot: SaveSlot): string {
+  const lastPlayed = new Date(slot.lastPlayed).toLocaleString();
+  if (!slot.summary) return `Last played ${lastPlayed}`;
+  const { player, highestCoinValue, persistedCells } = slot.summary;
+  return `Last played ${lastPlayed} · at (${player.lat.toFixed(4)}, ${
+    player.lng.toFixed(4)
+  }) · best coin ${highestCoinValue} · ${persistedCells} cells`;
+}
+
+export function renderSaveSlots(
+  slots: SaveSlot[],
+  activeSlotId: string,
+  eventBus: EventTarget,
+): void {
+  const list = settingsWindow?.querySelector("#save-slots");
+  if (!list) return;
+
+  const dispatch = (type: string, detail: Record<string, unknown>) =>
+    eventBus.dispatchEvent(new CustomEvent(type, { detail }));
+
+  list.replaceChildren(...slots.map((slot) => {
+    const isActive = slot.id === activeSlotId;
+    const item = document.createElement("li");
+    item.className = isActive ? "save-slot active" : "save-slot";
+    item.innerHTML = `
+      <strong></strong>
+      <small>${describeSlot(slot)}</small>
+      <div class="save-slot-actions">
+        <button data-action="load">Load</button>
+        <button data-action="rename">Rename</button>
+        <button data-action="duplicate">Duplicate</button>
+        <button data-action="delete">Delete</button>
+      </div>
+    `;
+    item.querySelector("strong")!.textContent = isActive
+      ? `${slot.name} (current)`
+      : slot.name;
+
+    const button = (action: string) =>
+      item.querySelector(`[data-action="${action}"]`)! as HTMLButtonElement;
+    button("load").disabled = isActive;
+    button("delete").disabled = isActive;
+    button("load").onclick = () => dispatch("load-slot", { slotId: slot.id });
+    button("rename").onclick = () => {
+      const name = prompt("Rename save slot", slot.name);
+      if (name) dispatch("rename-slot", { slotId: slot.id, name });
+    };
+    button("duplicate").onclick = () =>
+      dispatch("duplicate-slot", { slotId: slot.id });
+    button("delete").onclick = () => {
+      if (confirm(`Delete "${slot.name}"? This cannot be undone.`)) {
+        dispatch("delete-slot", { slotId: slot.id });
+      }
+    };
+    return item;
+  }));
+}
+
+export function refreshSettingsWindow(): void {
+  const debugCheckbox = settingsWindow?.querySelector(
+    "#debug-mode",
+  ) as HTMLInputElement | null;
+  if (debugCheckbox) {
+    debugCheckbox.checked = config.debugMovement;
+  }
+  const travelStepSelect = settingsWindow?.querySelector(
+    "#travel-step",
+  ) as HTMLSelectElement | null;
+  if (travelStepSelect) {
+    travelStepSelect.value = String(config.travelStepMs);
+  }
+}
+
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function formatSummary(summary: SaveSummary): string[] {
+  return [
+    `${summary.player.lat.toFixed(5)}, ${summary.player.lng.toFixed(5)}`,
+    summary.inventoryValues.length === 0
+      ? "Nothing"
+      : summary.inventoryValues.join(", "),
+    `${summary.placedCoins}`,
+    `${summary.persistedCells}`,
+    `${summary.highestCoinValue}`,
+  ];
+}
+
+export function createImportPreview(
+  current: SaveSummary,
+  incoming: SaveSummary,
+  state: GameState,
+  eventBus: EventTarget,
+): HTMLElement {
+  const labels = [
+    "Player location",
+    "Holding",
+    "Coins on map",
+    "Cells touched",
+    "Highest coin",
+  ];
+  const currentValues = formatSummary(current);
+  const incomingValues = formatSummary(incoming);
+  const container = document.createElement("div");
+  container.className = "settings-window save-preview";
+  container.innerHTML = `
+    <h3>Import save?</h3>
+    <p>Your current progress will be replaced.</p>
+    <table>
+      <tr><th></th><th>Current</th><th>Imported</th></tr>
+      ${
+    labels.map((label, i) =>
+      `<tr><th>${label}</th><td>${currentValues[i]}</td><td>${
+        incomingValues[i]
+      }</td></tr>`
+    ).join("")
+  }
+    </table>
+    <button id="confirm-import">Replace progress</button>
+    <button id="cancel-import" class="secondary">Cancel</button>
+  `;
+
+  const confirmBtn = container.querySelector(
+    "#confirm-import",
+  )! as HTMLButtonElement;
+  confirmBtn.onclick = () => {
+    container.remove();
+    eventBus.dispatchEvent(
+      new CustomEvent("apply-imported-save", { detail: { state } }),
+    );
+  };
+  const cancelBtn = container.querySelector(
+    "#cancel-import",
+  )! as HTMLButtonElement;
+  cancelBtn.onclick = () => container.remove();
+
+  document.body.append(container);
+  return container;
+}
+
+let biomeBadge: HTMLElement | null = null;
+
+// Names the biome the player is standing in
+export function createBiomeBadge(): HTMLElement {
+  if (biomeBadge) return biomeBadge;
+  biomeBadge = document.createElement("div");
+  biomeBadge.className = "biome-badge";
+  biomeBadge.innerHTML =
+    `<span class="swatch"></span><span class="name"></span>`;
+  return biomeBadge;
+}
+
+export function updateBiomeBadge(biome: Biome): void {
+  if (!biomeBadge || biomeBadge.dataset.biome === biome.id) return;
+  biomeBadge.dataset.biome = biome.id;
+  (biomeBadge.querySelector(".swatch") as HTMLElement).style.background =
+    biome.color;
+  biomeBadge.querySelector(".name")!.textContent = biome.name;
+  biomeBadge.title = biome.rare
+    ? `${biome.name}: rare coins worth up to ${Math.max(...biome.rare.values)}`
+    : biome.name;
+}
+
 export function createHomeButton(eventBus: EventTarget): HTMLElement {
   const button = document.createElement("button");
   button.className = "home-button";
@@ -182,3 +863,72 @@ export function createHomeButton(eventBus: EventTarget): HTMLElement {
   };
   return button;
 }
+
+let timingPanel: HTMLElement | null = null;
+
+// How long the last render of each map overlay took, step by step
+export function createTimingPanel(): HTMLElement {
+  if (timingPanel) return timingPanel;
+  timingPanel = document.createElement("div");
+  timingPanel.className = "timing-panel";
+  timingPanel.hidden = true;
+  return timingPanel;
+}
+
+export function setTimingPanelVisible(visible: boolean): void {
+  if (timingPanel) timingPanel.hidden = !visible;
+}
+
+export function updateTimingPanel(rendered: OverlayRenderedEventDetail): void {
+  if (!timingPanel) return;
+  let row = timingPanel.querySelector(
+    `[data-overlay="${rendered.key}"]`,
+  ) as HTMLElement | null;
+  if (!row) {
+    row = document.createElement("div");
+    row.dataset.overlay = rendered.key;
+    timingPanel.append(row);
+  }
+  const steps = Object.entries(rendered.timings)
+    .map(([step, ms]) => `${step} ${ms.toFixed(1)}`)
+    .join(" · ");
+  row.innerHTML = `
+    <strong>${rendered.key}</strong> ${rendered.cells} hexes:
+    ${rendered.total.toFixed(1)} ms
+    <small>(${steps})</small>
+  `;
+}
+
+let gpsErrorBanner: HTMLElement | null = null;
+
+export function showGpsError(message: string, eventBus: EventTarget): void {
+  if (!gpsErrorBanner) {
+    gpsErrorBanner = document.createElement("div");
+    gpsErrorBanner.className = "gps-error";
+    gpsErrorBanner.setAttribute("role", "alert");
+    gpsErrorBanner.innerHTML = `
+      <p></p>
+      <button class="fallback">Move manually instead</button>
+      <button class="dismiss secondary">Dismiss</button>
+    `;
+    const fallbackBtn = gpsErrorBanner.querySelector(
+      ".fallback",
+    )! as HTMLButtonElement;
+    fallbackBtn.onclick = () => {
+      eventBus.dispatchEvent(
+        new CustomEvent("toggle-movement-mode", { detail: { mode: "ui" } }),
+      );
+    };
+    const dismissBtn = gpsErrorBanner.querySelector(
+      ".dismiss",
+    )! as HTMLButtonElement;
+    dismissBtn.onclick = () => hideGpsError();
+    document.body.append(gpsErrorBanner);
+  }
+  gpsErrorBanner.querySelector("p")!.textContent = message;
+  gpsErrorBanner.style.display = "block";
+}
+
+export function hideGpsError(): void {
+  if (gpsErrorBanner) gpsErrorBanner.style.display = "none";
+}
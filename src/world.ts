@@ -1,22 +1,32 @@
 // @deno-types="npm:@types/leaflet"
 import leaflet from "leaflet";
+import { CoinIndex } from "./coinIndex.ts";
 import {
   addCoinEventListeners,
-  Coin,
-  CoinGenerator,
-  CoinMemento,
+  createClusterMarker,
   createCoinMarker,
-  createCoinMemento,
-} from "./generation.ts";
+  setCoinMarkerReach,
+} from "./coinMarkers.ts";
+import { Coin, CoinGenerator, restoreCoinFromMemento } from "./generation.ts";
+import {
+  CellInstance,
+  distanceMeters,
+  GeoPoint,
+  SharedCellData,
+} from "./grid.ts";
+import { HexCoord, hexRange, packHex, unpackHex } from "./hex.ts";
+import {
+  clusterCoins,
+  DetailLevel,
+  detailLevel,
+  GAMEPLAY_ZOOM,
+  superGrid,
+} from "./levelOfDetail.ts";
+import { HexOverlayJob, HexStyle, packCells } from "./overlayRaster.ts";
+import { OverlayRenderer } from "./overlayRenderer.ts";
+import { PersistedCells } from "./persistedCells.ts";
 import { PlayerRadius } from "./player.ts";
-
-export type HexCoord = {
-  q: number;
-  r: number;
-};
-export function HexCoord(q: number, r: number): HexCoord {
-  return { q, r };
-}
+import { REGION_SIZE, regionOf } from "./storage.ts";
 
 export type Range = {
   min: number;
@@ -26,209 +36,88 @@ export function Range(min: number, max: number): Range {
   return { min, max };
 }
 
-export interface Cell {
-  id: string;
-  coord: HexCoord;
-  center: leaflet.LatLng;
-  bounds: leaflet.LatLngBounds;
-}
+export class World {
+  private activeCoins = new CoinIndex<leaflet.Marker>();
+  // Loaded cells, packed with packHex
+  private loadedCells: Set<number> = new Set();
+  private detail: DetailLevel = detailLevel(GAMEPLAY_ZOOM);
+  // Shown instead of coin markers when zoomed out
+  private clusterMarkers: leaflet.Marker[] = [];
+  private clusterFrame: number | null = null;
 
-export class SharedCellData {
   constructor(
-    public origin: leaflet.LatLng,
-    public size: number = 0.00005, // Approximate radius for hex cells, ~0.0001 degrees bounding box
+    private sharedData: SharedCellData,
+    private coinGenerator: CoinGenerator,
+    private persisted: PersistedCells,
+    private overlays: OverlayRenderer,
   ) {}
 
-  getCenter(q: number, r: number): leaflet.LatLng {
-    // Using flat-top hex coordinates for lat/lng approximation
-    // x (lng) = size * (3/2 * q)
-    // y (lat) = size * (√3/2 * q + √3 * r)
-    const sqrt3 = Math.sqrt(3);
-    const lng = this.origin.lng + this.size * (3 / 2 * q);
-    const lat = this.origin.lat + this.size * ((sqrt3 / 2) * q + sqrt3 * r);
-    return leaflet.latLng(lat, lng);
+  setAnchor(name: "player" | "camera", coord: HexCoord): void {
+    this.persisted.setAnchor(name, coord);
   }
 
-  getCorners(q: number, r: number): leaflet.LatLng[] {
-    const center = this.getCenter(q, r);
-    const corners: leaflet.LatLng[] = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (Math.PI / 3) * i;
-      const cornerLng = center.lng + this.size * Math.cos(angle);
-      const cornerLat = center.lat + this.size * Math.sin(angle);
-      corners.push(leaflet.latLng(cornerLat, cornerLng));
-    }
-    return corners;
-  }
-
-  getBounds(q: number, r: number): leaflet.LatLngBounds {
-    const corners = this.getCorners(q, r);
-    return leaflet.latLngBounds(corners);
-  }
-}
-
-export class CellInstance {
-  public coord: HexCoord;
-
-  constructor(
-    q: number,
-    r: number,
-    private shared: SharedCellData,
-  ) {
-    this.coord = { q, r };
-  }
-
-  get q(): number {
-    return this.coord.q;
-  }
-
-  get r(): number {
-    return this.coord.r;
-  }
-
-  get id(): string {
-    return `${this.q},${this.r}`;
-  }
-
-  get center(): leaflet.LatLng {
-    return this.shared.getCenter(this.q, this.r);
-  }
-
-  get bounds(): leaflet.LatLngBounds {
-    return this.shared.getBounds(this.q, this.r);
-  }
-
-  get corners(): leaflet.LatLng[] {
-    return this.shared.getCorners(this.q, this.r);
-  }
-}
-
-export class World {
-  private static readonly CELL_SIZE = 4;
-  private static readonly CELL_Q_OFFSET = 0;
-  private static readonly CELL_R_OFFSET = 1;
-  private static readonly CELL_LAT_OFFSET = 2;
-  private static readonly CELL_LNG_OFFSET = 3;
-  private cellBuffer: Float32Array;
-  private cellCount: number = 0;
-  private bufferSize: number = 1000; // initial size
-  private sharedData: SharedCellData;
-  private activeCoins: Map<
-    string,
-    { coin: Coin; marker: leaflet.CircleMarker }
-  > = new Map();
-  private persistedCoins: Map<string, CoinMemento | null> = new Map();
-  private overlays: Map<string, leaflet.ImageOverlay> = new Map();
-
-  constructor(origin: leaflet.LatLng, private coinGenerator: CoinGenerator) {
-    this.sharedData = new SharedCellData(origin);
-    this.cellBuffer = new Float32Array(this.bufferSize * World.CELL_SIZE);
+  // Cells and coins only respond to clicks at gameplay zoom
+  get interactive(): boolean {
+    return this.detail.interactive;
   }
 
-  restoreCoinFromMemento(memento: CoinMemento): Coin {
-    const cell = new CellInstance(memento.q, memento.r, this.sharedData);
-    return {
-      id: memento.id,
-      value: memento.value,
-      position: leaflet.latLng(memento.lat, memento.lng),
-      cell,
-      history: [...memento.history],
-    };
-  }
-
-  getPersistedCoinForCell(cellId: string): CoinMemento | null | undefined {
-    return this.persistedCoins.get(cellId);
-  }
-
-  removePersisted(cellId: string): void {
-    this.persistedCoins.delete(cellId);
-  }
-
-  // Persist an interacted-with coin's snapshot immediately
-  persistCoinSnapshot(coin: Coin): void {
-    const memento = createCoinMemento(coin);
-    this.persistedCoins.set(coin.cell.id, memento);
-  }
-
-  // Mark a cell as empty so generator will not respawn a coin there
-  persistRemovedCell(cellId: string): void {
-    this.persistedCoins.set(cellId, null);
-  }
-
-  getPersistedEntries(): { cellId: string; memento: CoinMemento | null }[] {
-    const entries: { cellId: string; memento: CoinMemento | null }[] = [];
-    for (const [cellId, memento] of this.persistedCoins.entries()) {
-      entries.push({ cellId, memento });
+  // Switches the grid and coins to the level of detail for `zoom`. Overlays
+  // are drawn for one zoom, so they are dropped and redrawn by renderHexes.
+  setZoom(zoom: number, map: leaflet.Map): void {
+    const wasClustered = this.detail.clusterScale > 1;
+    this.detail = detailLevel(zoom);
+    const clustered = this.detail.clusterScale > 1;
+    this.overlays.invalidate();
+    if (clustered !== wasClustered) {
+      for (const { data: marker } of this.activeCoins.values()) {
+        if (clustered) map.removeLayer(marker);
+        else marker.addTo(map);
+      }
     }
-    return entries;
+    this.renderClusters(map);
   }
 
-  setPersistedEntries(
-    entries: { cellId: string; memento: CoinMemento | null }[],
-  ): void {
-    this.persistedCoins.clear();
-    for (const e of entries) {
-      this.persistedCoins.set(e.cellId, e.memento);
-    }
+  // Coins come and go in batches while cells load, so clusters are redrawn
+  // once per frame at most
+  private scheduleClusters(map: leaflet.Map): void {
+    if (this.detail.clusterScale === 1 || this.clusterFrame !== null) return;
+    this.clusterFrame = requestAnimationFrame(() => {
+      this.clusterFrame = null;
+      this.renderClusters(map);
+    });
   }
 
-  private drawHexPath(
-    ctx: CanvasRenderingContext2D,
-    qr: { q: number; r: number },
-    map: leaflet.Map,
-    nw: leaflet.Point,
-  ): void {
-    ctx.beginPath();
-    const corners = this.sharedData.getCorners(qr.q, qr.r);
-    const firstPoint = map.latLngToContainerPoint(corners[0]);
-    ctx.moveTo(firstPoint.x - nw.x, firstPoint.y - nw.y);
-    for (let i = 1; i < corners.length; i++) {
-      const point = map.latLngToContainerPoint(corners[i]);
-      ctx.lineTo(point.x - nw.x, point.y - nw.y);
+  private renderClusters(map: leaflet.Map): void {
+    this.clusterMarkers.forEach((marker) => map.removeLayer(marker));
+    this.clusterMarkers = [];
+    if (this.detail.clusterScale === 1) return;
+    const clusters = clusterCoins(
+      this.getActiveCoins(),
+      this.sharedData,
+      this.detail.clusterScale,
+    );
+    for (const cluster of clusters) {
+      this.clusterMarkers.push(createClusterMarker(cluster).addTo(map));
     }
-    ctx.closePath();
   }
 
-  private createHexOverlay(
+  private overlayJob(
     map: leaflet.Map,
-    qrs: { q: number; r: number }[],
-    drawCell: (
-      ctx: CanvasRenderingContext2D,
-      qr: { q: number; r: number },
-      nw: leaflet.Point,
-    ) => void,
-  ): leaflet.ImageOverlay | undefined {
-    if (qrs.length === 0) return;
-    performance.mark("create-hex-overlay-start");
-    const allCorners = qrs.flatMap((qr) =>
-      this.sharedData.getCorners(qr.q, qr.r)
-    );
-    const bounds = leaflet.latLngBounds(allCorners);
-    performance.mark("calculate-bounds-end");
-
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    const nw = map.latLngToContainerPoint(bounds.getNorthWest());
-    const se = map.latLngToContainerPoint(bounds.getSouthEast());
-    const width = Math.abs(se.x - nw.x);
-    const height = Math.abs(se.y - nw.y);
-
-    canvas.width = width;
-    canvas.height = height;
-    performance.mark("setup-canvas-end");
-
-    for (const qr of qrs) {
-      drawCell(ctx, qr, nw);
-    }
-    performance.mark("draw-cells-end");
-
-    const imgUrl = canvas.toDataURL();
-    const imageOverlay = leaflet.imageOverlay(imgUrl, bounds);
-    imageOverlay.addTo(map);
-    performance.mark("create-hex-overlay-end");
-    return imageOverlay;
+    grid: SharedCellData,
+    cells: HexCoord[],
+    styles: HexStyle[],
+  ): HexOverlayJob {
+    const { lat, lng } = grid.origin;
+    return {
+      zoom: map.getZoom(),
+      grid: {
+        origin: { lat, lng },
+        size: grid.size,
+        projection: grid.projection,
+      },
+      cells: packCells(cells),
+      styles,
+    };
   }
 
   updateCellsAround(
@@ -237,146 +126,65 @@ export class World {
     map: leaflet.Map,
     playerRadius: PlayerRadius,
     eventBus: EventTarget,
-  ): void {
-    const existingCellIds = this.collectCurrentCellIds();
-    const addedCells = this.generateCellsAround(centerCoord, range);
+  ): Promise<void> {
+    const existingCells = this.loadedCells;
+    const addedCells = new Set(hexRange(centerCoord, range).map(packHex));
+    const newCells = Array.from(
+      addedCells.difference(existingCells),
+      unpackHex,
+    );
+    this.loadedCells = addedCells;
+    this.setAnchor("player", centerCoord);
 
     pruneCoins(this);
-    generateCoins(this);
+    this.persisted.evictFarRegions(range + 2 * REGION_SIZE);
     this.updateCoinReaches(playerRadius);
+    return this.persisted.ensureRegionsLoaded(
+      new Set(newCells.map(({ q, r }) => regionOf(`${q},${r}`))),
+    )
+      .then(() => {
+        generateCoins(this);
+        this.updateCoinReaches(playerRadius);
+      });
 
     function generateCoins(world: World) {
-      for (const coord of addedCells.difference(existingCellIds)) {
-        const [qStr, rStr] = coord.split(",");
-        const cell = new CellInstance(
-          Number(qStr),
-          Number(rStr),
-          world.sharedData,
-        );
-        const persisted = world.getPersistedCoinForCell(cell.id);
-        let coin: Coin | undefined = undefined;
-        if (persisted !== undefined) {
-          if (persisted === null) {
-            coin = undefined; // intentionally empty
-          } else {
-            coin = world.restoreCoinFromMemento(persisted);
-          }
-        } else {
-          coin = world.coinGenerator.generateCoinForCell(cell);
-        }
-        if (coin) {
-          const withinReach = playerRadius.position.distanceTo(coin.position) <=
-            playerRadius.reach;
-          world.addCoin(coin, withinReach, eventBus, map);
-        }
+      for (const coord of newCells) {
+        world.populateCell(coord, playerRadius, eventBus, map);
       }
     }
 
     function pruneCoins(world: World) {
-      for (const cellId of existingCellIds.difference(addedCells)) {
-        // Find any active coin whose cell matches this id
-        let coin: Coin | undefined = undefined;
-        for (const { coin: c } of world.activeCoins.values()) {
-          if (c.cell.id === cellId) {
-            coin = c;
-            break;
-          }
-        }
-        if (coin) {
+      for (const cell of existingCells.difference(addedCells)) {
+        const entry = world.activeCoins.at(unpackHex(cell));
+        if (entry) {
           // Do not persist on unload; persistence happens at interaction time
-          world.removeCoin(coin.id, map);
+          world.removeCoin(entry.coin, map);
         }
       }
     }
   }
 
-  private collectCurrentCellIds(): Set<string> {
-    const existingCellIds = new Set<string>();
-    for (
-      let index = 0;
-      index < this.cellCount * World.CELL_SIZE;
-      index += World.CELL_SIZE
-    ) {
-      const q = this.cellBuffer[index + World.CELL_Q_OFFSET];
-      const r = this.cellBuffer[index + World.CELL_R_OFFSET];
-      existingCellIds.add(`${q},${r}`);
-    }
-    return existingCellIds;
-  }
-
-  private generateCellsAround(
-    centerCoord: HexCoord,
-    range: number,
-  ): Set<string> {
-    this.cellCount = 0;
-    const addedCells = new Set<string>();
-    // Generate new cells within range
-    for (let q = centerCoord.q - range; q <= centerCoord.q + range; q++) {
-      for (let r = centerCoord.r - range; r <= centerCoord.r + range; r++) {
-        const distance =
-          (Math.abs(q - centerCoord.q) + Math.abs(r - centerCoord.r) +
-            Math.abs((q - centerCoord.q) + (r - centerCoord.r))) / 2;
-        if (distance <= range) {
-          // Check if buffer needs resizing
-          if (this.cellCount * World.CELL_SIZE >= this.cellBuffer.length) {
-            const newBuffer = new Float32Array(this.cellBuffer.length * 2);
-            newBuffer.set(this.cellBuffer);
-            this.cellBuffer = newBuffer;
-          }
-          const index = this.cellCount * World.CELL_SIZE;
-          this.cellBuffer[index + World.CELL_Q_OFFSET] = q;
-          this.cellBuffer[index + World.CELL_R_OFFSET] = r;
-          const center = this.sharedData.getCenter(q, r);
-          this.cellBuffer[index + World.CELL_LAT_OFFSET] = center.lat;
-          this.cellBuffer[index + World.CELL_LNG_OFFSET] = center.lng;
-          this.cellCount++;
-          addedCells.add(`${q},${r}`);
-        }
-      }
-    }
-    return addedCells;
-  }
-
   getCell(q: number, r: number): CellInstance {
     return new CellInstance(q, r, this.sharedData);
   }
 
-  getCellAtLatLng(latlng: leaflet.LatLng): CellInstance {
+  getCellAtLatLng(latlng: GeoPoint): CellInstance {
     const coord = this.latLngToHex(latlng.lat, latlng.lng);
     return this.getCell(coord.q, coord.r);
   }
 
   latLngToHex(lat: number, lng: number): HexCoord {
-    const size = this.sharedData.size;
-    const origin = this.sharedData.origin;
-    const x = lng - origin.lng;
-    const y = lat - origin.lat;
-    const sqrt3 = Math.sqrt(3);
-    const q = (2 / 3) * x / size;
-    const r = (-1 / 3 * x + (sqrt3 / 3) * y) / size;
-    return { q: Math.round(q), r: Math.round(r) };
+    return this.sharedData.latLngToHex(lat, lng);
   }
 
+  // Loaded cells within reach, found by hex steps around the player
   getNearbyCells(
-    playerPos: leaflet.LatLng,
+    playerPos: GeoPoint,
     reachDistance: number,
   ): CellInstance[] {
-    const nearby: CellInstance[] = [];
-    for (
-      let index = 0;
-      index < this.cellCount * World.CELL_SIZE;
-      index += World.CELL_SIZE
-    ) {
-      const lat = this.cellBuffer[index + World.CELL_LAT_OFFSET];
-      const lng = this.cellBuffer[index + World.CELL_LNG_OFFSET];
-      const center = leaflet.latLng(lat, lng);
-      if (playerPos.distanceTo(center) <= reachDistance) {
-        const q = this.cellBuffer[index + World.CELL_Q_OFFSET];
-        const r = this.cellBuffer[index + World.CELL_R_OFFSET];
-        nearby.push(new CellInstance(q, r, this.sharedData));
-      }
-    }
-    return nearby;
+    return this.sharedData.cellsWithin(playerPos, reachDistance)
+      .filter((coord) => this.loadedCells.has(packHex(coord)))
+      .map(({ q, r }) => new CellInstance(q, r, this.sharedData));
   }
 
   private renderNearbyCells(
@@ -403,83 +211,56 @@ export class World {
       return weightRange.min + t * (weightRange.max - weightRange.min);
     };
 
-    const nearbyQRs = nearbyCells.map((cell) => ({ q: cell.q, r: cell.r }));
-    const overlay = this.createHexOverlay(map, nearbyQRs, (ctx, qr, nw) => {
-      const distance = playerRadius.position.distanceTo(
-        this.sharedData.getCenter(qr.q, qr.r),
-      );
+    const styles = nearbyCells.map((cell): HexStyle => {
+      const distance = distanceMeters(playerRadius.position, cell.center);
       const weight = opacityFunction(
         distance,
         { min: 10, max: playerRadius.reach },
         { min: 0.1, max: 0.4 },
       );
-      ctx.lineWidth = weight;
-      ctx.fillStyle = `rgba(128, 128, 128, ${weight * 0.5})`;
-      ctx.strokeStyle = "grey";
-
-      this.drawHexPath(ctx, qr, map, nw);
-      ctx.fill();
-      ctx.stroke();
+      return {
+        stroke: "grey",
+        lineWidth: weight,
+        fill: `rgba(128, 128, 128, ${weight * 0.5})`,
+      };
     });
-    if (overlay) {
-      this.overlays.set("nearby", overlay);
-    }
+    this.overlays.render(
+      "nearby",
+      this.overlayJob(map, this.sharedData, nearbyCells, styles),
+      playerRadius.position,
+      map,
+    );
   }
 
+  // Drawn with super-hexes when zoomed out, so there are about as many hexes
+  // on screen at every zoom
   private renderHexGrid(
     map: leaflet.Map,
-    playerRadius: PlayerRadius,
+    cameraRadius: PlayerRadius,
   ): void {
-    const centerCoord = this.latLngToHex(
-      playerRadius.position.lat,
-      playerRadius.position.lng,
+    const grid = superGrid(this.sharedData, this.detail.gridScale);
+    const centerCoord = grid.latLngToHex(
+      cameraRadius.position.lat,
+      cameraRadius.position.lng,
     );
-    const renderRange = 30;
-    const allVisibleQRs: HexCoord[] = [];
-    for (
-      let q = centerCoord.q - renderRange;
-      q <= centerCoord.q + renderRange;
-      q++
-    ) {
-      for (
-        let r = centerCoord.r - renderRange;
-        r <= centerCoord.r + renderRange;
-        r++
-      ) {
-        const distance =
-          (Math.abs(q - centerCoord.q) + Math.abs(r - centerCoord.r) +
-            Math.abs((q - centerCoord.q) + (r - centerCoord.r))) / 2;
-        if (distance <= renderRange) {
-          allVisibleQRs.push({ q, r });
-        }
-      }
-    }
-    const overlay = this.createHexOverlay(map, allVisibleQRs, (ctx, qr, nw) => {
-      ctx.strokeStyle = "lightgrey";
-      ctx.lineWidth = 1;
-
-      this.drawHexPath(ctx, qr, map, nw);
-      ctx.stroke();
-    });
-    if (overlay) {
-      this.overlays.set("grid", overlay);
-    }
-  }
-
-  private moveOverlay(key: string, newCenter: leaflet.LatLng): void {
-    const overlay = this.overlays.get(key);
-    if (!overlay) return;
-    const currentCenter = overlay.getCenter();
-    const deltaLat = newCenter.lat - currentCenter.lat;
-    const deltaLng = newCenter.lng - currentCenter.lng;
-    const oldBounds = overlay.getBounds();
-    const sw = oldBounds.getSouthWest();
-    const ne = oldBounds.getNorthEast();
-    const newBounds = leaflet.latLngBounds(
-      leaflet.latLng(sw.lat + deltaLat, sw.lng + deltaLng),
-      leaflet.latLng(ne.lat + deltaLat, ne.lng + deltaLng),
+    // Twice the view, so the overlay can follow the camera for a while
+    // before it has to move
+    const renderRange = Math.ceil(
+      2 * cameraRadius.reach /
+        (1.5 * grid.radiusMeters(centerCoord.q, centerCoord.r)),
+    );
+    const allVisibleQRs = hexRange(centerCoord, renderRange);
+    const style: HexStyle = {
+      stroke: "lightgrey",
+      lineWidth: 1,
+      opacity: this.detail.gridOpacity,
+    };
+    this.overlays.render(
+      "grid",
+      this.overlayJob(map, grid, allVisibleQRs, [style]),
+      grid.getCenter(centerCoord.q, centerCoord.r),
+      map,
     );
-    overlay.setBounds(newBounds);
   }
 
   renderHexes(
@@ -487,44 +268,103 @@ export class World {
     playerRadius: PlayerRadius,
     cameraRadius: PlayerRadius,
   ) {
-    const nearbyOverlay = this.overlays.get("nearby");
-    const gridOverlay = this.overlays.get("grid");
-    const hexRadiusM = this.sharedData.size * 10 ** 5; // rough conversion to meters
+    const nearbyCenter = this.overlays.center("nearby");
+    const gridOverlayCenter = this.overlays.center("grid");
+    const playerCell = this.latLngToHex(
+      playerRadius.position.lat,
+      playerRadius.position.lng,
+    );
+    const hexRadiusM = this.sharedData.radiusMeters(
+      playerCell.q,
+      playerCell.r,
+    );
+    // The grid moves by whole super-hexes so its lattice stays in place
+    const grid = superGrid(this.sharedData, this.detail.gridScale);
+    const gridCoord = grid.latLngToHex(
+      cameraRadius.position.lat,
+      cameraRadius.position.lng,
+    );
+    const gridCenter = grid.getCenter(gridCoord.q, gridCoord.r);
     const margin = 0.9;
     const apothem = cameraRadius.reach * Math.cos(Math.PI / 6) * margin;
-    const distanceToCameraCenter = cameraRadius.position.distanceTo(
+    const distanceToCameraCenter = distanceMeters(
+      cameraRadius.position,
       playerRadius.position,
     );
-    const playerDistanceToNearbyCenter = nearbyOverlay
-      ? nearbyOverlay.getCenter().distanceTo(playerRadius.position)
+    const playerDistanceToNearbyCenter = nearbyCenter
+      ? distanceMeters(nearbyCenter, playerRadius.position)
       : Infinity;
-    const cameraDistanceToGridCenter = gridOverlay
-      ? gridOverlay.getCenter().distanceTo(cameraRadius.position)
+    const cameraDistanceToGridCenter = gridOverlayCenter
+      ? distanceMeters(gridOverlayCenter, cameraRadius.position)
       : Infinity;
-    const cameraDistanceToNearbyCenter = nearbyOverlay
-      ? nearbyOverlay.getCenter().distanceTo(cameraRadius.position)
+    const cameraDistanceToNearbyCenter = nearbyCenter
+      ? distanceMeters(nearbyCenter, cameraRadius.position)
       : Infinity;
     if (
-      !nearbyOverlay ||
+      !nearbyCenter ||
       playerDistanceToNearbyCenter > hexRadiusM ||
       distanceToCameraCenter < cameraRadius.reach &&
         cameraDistanceToNearbyCenter > cameraRadius.reach
     ) {
-      if (!nearbyOverlay || !gridOverlay) {
-        this.overlays.forEach((overlay) => map.removeLayer(overlay));
-        this.overlays.clear();
+      if (!nearbyCenter || !gridOverlayCenter) {
+        // The overlays on the map stay until these replace them
         this.renderHexGrid(map, cameraRadius);
         this.renderNearbyCells(map, playerRadius);
       } else {
-        this.moveOverlay("nearby", playerRadius.position);
-        this.moveOverlay("grid", cameraRadius.position);
+        this.overlays.move("nearby", playerRadius.position);
+        this.overlays.move("grid", gridCenter);
       }
-    } else if (!gridOverlay || cameraDistanceToGridCenter >= apothem) {
-      if (!gridOverlay) {
+    } else if (!gridOverlayCenter || cameraDistanceToGridCenter >= apothem) {
+      if (!gridOverlayCenter) {
         this.renderHexGrid(map, cameraRadius);
       } else {
-        this.moveOverlay("grid", cameraRadius.position);
+        this.overlays.move("grid", gridCenter);
+      }
+    }
+  }
+
+  // Puts whatever coin a visible cell should hold on the map
+  private populateCell(
+    { q, r }: HexCoord,
+    playerRadius: PlayerRadius,
+    eventBus: EventTarget,
+    map: leaflet.Map,
+  ): void {
+    const cell = new CellInstance(q, r, this.sharedData);
+    // The player may have moved on while regions were loading
+    if (!this.loadedCells.has(packHex(cell.coord))) return;
+    if (this.activeCoins.at(cell.coord)) return;
+    // Never generate over a region that failed to load
+    if (!this.persisted.isRegionReady(regionOf(cell.id))) return;
+    const persisted = this.persisted.get(cell.id);
+    let coin: Coin | undefined = undefined;
+    if (persisted !== undefined) {
+      if (persisted === null) {
+        coin = undefined; // intentionally empty
+      } else {
+        coin = restoreCoinFromMemento(persisted, this.sharedData);
       }
+    } else {
+      coin = this.coinGenerator.generateCoinForCell(cell);
+    }
+    if (coin) {
+      const withinReach =
+        distanceMeters(playerRadius.position, coin.position) <=
+          playerRadius.reach;
+      this.addCoin(coin, withinReach, eventBus, map);
+    }
+  }
+
+  // Cells whose tombstone expired grow their coin back if they are in view
+  regrowCells(
+    cellIds: string[],
+    playerRadius: PlayerRadius,
+    eventBus: EventTarget,
+    map: leaflet.Map,
+  ): void {
+    for (const cellId of cellIds) {
+      const [q, r] = cellId.split(",").map(Number);
+      this.populateCell({ q, r }, playerRadius, eventBus, map);
     }
   }
 
@@ -535,50 +375,44 @@ export class World {
     map: leaflet.Map,
   ): void {
     const marker = createCoinMarker(coin, withinReach);
-    marker.addTo(map);
+    if (this.detail.clusterScale === 1) marker.addTo(map);
     addCoinEventListeners(marker, coin, eventBus);
-    this.activeCoins.set(coin.cell.id, { coin, marker });
+    this.activeCoins.set(coin, marker);
+    this.scheduleClusters(map);
   }
 
-  removeCoin(id: string, map: leaflet.Map): void {
-    // Remove by coin id: find the entry with matching coin id
-    for (const [cellId, entry] of this.activeCoins.entries()) {
-      if (entry.coin.id === id) {
-        map.removeLayer(entry.marker);
-        this.activeCoins.delete(cellId);
-        break;
-      }
-    }
+  removeCoin(coin: Coin, map: leaflet.Map): void {
+    const entry = this.activeCoins.at(coin.cell.coord);
+    if (!entry || !this.activeCoins.delete(coin)) return;
+    map.removeLayer(entry.data);
+    this.scheduleClusters(map);
   }
 
   getCoinInCell(cell: CellInstance): Coin | undefined {
-    const entry = this.activeCoins.get(cell.id);
-    return entry ? entry.coin : undefined;
+    return this.activeCoins.at(cell.coord)?.coin;
+  }
+
+  getActiveCoins(): Coin[] {
+    return Array.from(this.activeCoins.values(), (entry) => entry.coin);
   }
 
-  private updateCoinReaches(playerRadius: PlayerRadius): void {
-    for (const [_id, entry] of this.activeCoins) {
+  updateCoinReaches(playerRadius: PlayerRadius): void {
+    for (const { coin, data: marker } of this.activeCoins.values()) {
       const withinReach =
-        playerRadius.position.distanceTo(entry.coin.cell.center) <=
+        distanceMeters(playerRadius.position, coin.cell.center) <=
           playerRadius.reach;
-      entry.marker.setStyle({
-        color: withinReach ? "gold" : "gray",
-        fillColor: withinReach ? "yellow" : "white",
-        fillOpacity: withinReach ? 0.8 : 0.4,
-        opacity: withinReach ? 0.8 : 0.4,
-      });
+      setCoinMarkerReach(marker, withinReach);
     }
   }
 
   clear(map: leaflet.Map): void {
     // Remove all active coins from map
-    for (const [_cellId, entry] of this.activeCoins) {
-      map.removeLayer(entry.marker);
+    for (const { data: marker } of this.activeCoins.values()) {
+      map.removeLayer(marker);
     }
     this.activeCoins.clear();
-    this.persistedCoins.clear();
-    this.cellCount = 0;
-    this.overlays.forEach((overlay) => map.removeLayer(overlay));
-    this.overlays.clear();
+    this.renderClusters(map);
+    this.loadedCells.clear();
+    this.overlays.clear(map);
   }
 }
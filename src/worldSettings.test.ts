@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import luck from "./_luck.ts";
+import { CoinGenerator } from "./generation.ts";
+import { CellInstance, SharedCellData } from "./grid.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  mixSeed,
+  sampleValue,
+  sizeCellsAt,
+  worldLuck,
+} from "./worldSettings.ts";
+
+Deno.test("the empty seed leaves luck() rolls unchanged", () => {
+  assert.equal(mixSeed("", "3,4"), "3,4");
+  assert.equal(worldLuck("", "3,4"), luck("3,4"));
+  assert.notEqual(worldLuck("other", "3,4"), luck("3,4"));
+});
+
+Deno.test("uniform values cover min to max", () => {
+  const distribution = { kind: "uniform", min: 1, max: 10 } as const;
+  assert.equal(sampleValue(distribution, 0), 1);
+  assert.equal(sampleValue(distribution, 0.999999), 10);
+  const values = new Set(
+    Array.from({ length: 100 }, (_, i) => sampleValue(distribution, i / 100)),
+  );
+  assert.equal(values.size, 10);
+});
+
+Deno.test("powers of two favour small values by the given ratio", () => {
+  const distribution = {
+    kind: "powers-of-two",
+    maxExponent: 3,
+    ratio: 0.5,
+  } as const;
+  const counts = new Map<number, number>();
+  for (let i = 0; i < 1500; i++) {
+    const value = sampleValue(distribution, i / 1500);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  // Weights 1, 1/2, 1/4, 1/8 out of 15/8
+  assert.deepEqual([...counts.entries()], [
+    [1, 800],
+    [2, 400],
+    [4, 200],
+    [8, 100],
+  ]);
+});
+
+Deno.test("seeds give different but repeatable worlds", () => {
+  const grid = new SharedCellData({ lat: 0, lng: 0 });
+  const cells = Array.from(
+    { length: 400 },
+    (_, i) => new CellInstance(i % 20, Math.floor(i / 20), grid),
+  );
+  const spawnMap = (seed: string) => {
+    const generator = new CoinGenerator({ ...DEFAULT_WORLD_SETTINGS, seed });
+    return cells.map((cell) => generator.generateCoinForCell(cell)?.value);
+  };
+  assert.deepEqual(spawnMap("a"), spawnMap("a"));
+  assert.notDeepEqual(spawnMap("a"), spawnMap("b"));
+});
+
+Deno.test("spawn probability controls how many cells get a coin", () => {
+  const grid = new SharedCellData({ lat: 0, lng: 0 });
+  const count = (spawnProbability: number) => {
+    const generator = new CoinGenerator({
+      ...DEFAULT_WORLD_SETTINGS,
+      spawnProbability,
+    });
+    let coins = 0;
+    for (let q = 0; q < 30; q++) {
+      for (let r = 0; r < 30; r++) {
+        if (generator.generateCoinForCell(new CellInstance(q, r, grid))) {
+          coins++;
+        }
+      }
+    }
+    return coins;
+  };
+  assert.equal(count(0), 0);
+  assert.ok(count(0.05) < count(0.2));
+});
+
+Deno.test("new worlds get ground-sized cells where they start", () => {
+  const lat = 36.99;
+  const settings = sizeCellsAt(DEFAULT_WORLD_SETTINGS, lat);
+  const grid = new SharedCellData({ lat: 0, lng: 0 }, settings.cellSize);
+  const { q, r } = grid.latLngToHex(lat, -122.05);
+  assert.ok(Math.abs(grid.radiusMeters(q, r) - 5.5) < 0.05);
+  // Older plate-carree worlds keep their sizes
+  const old = {
+    ...DEFAULT_WORLD_SETTINGS,
+    projection: "plate-carree",
+  } as const;
+  assert.equal(sizeCellsAt(old, lat).cellSize, old.cellSize);
+});
+
+Deno.test("cells drift from their size far from where the world starts", () => {
+  const start = 36.99;
+  const settings = sizeCellsAt(DEFAULT_WORLD_SETTINGS, start);
+  const grid = new SharedCellData({ lat: 0, lng: 0 }, settings.cellSize);
+  const radiusAt = (lat: number) => {
+    const { q, r } = grid.latLngToHex(lat, -122.05);
+    return grid.radiusMeters(q, r);
+  };
+  // About 1000 km north, and at the equator
+  for (const [lat, size] of [[46, 4.79], [0, 6.89]]) {
+    assert.ok(Math.abs(radiusAt(lat) / size - 1) < 0.01);
+  }
+});
@@ -0,0 +1,109 @@
+import luck from "./_luck.ts";
+import { GridProjection, planeCellSize } from "./grid.ts";
+
+// How the value of a freshly spawned coin is rolled
+export type ValueDistribution =
+  // Every whole value from min to max is equally likely
+  | { kind: "uniform"; min: number; max: number }
+  // 1, 2, 4, ... up to 2^maxExponent, each `ratio` times as likely as the last
+  | { kind: "powers-of-two"; maxExponent: number; ratio: number };
+
+// The rules a world is generated with. They are picked when a game starts and
+// saved with it, so each save keeps the world it was started in.
+export interface WorldSettings {
+  // Mixed into every luck() roll; "" gives the original world
+  seed: string;
+  // Hex radius in plane meters; see SharedCellData and sizeCellsAt
+  cellSize: number;
+  projection: GridProjection;
+  spawnProbability: number;
+  valueDistribution: ValueDistribution;
+  // How far away the player can reach coins, in meters
+  reach: number;
+  // How many cells around the player are loaded, in hex steps
+  loadRadius: number;
+  // Typical time in ms before an emptied cell grows a coin again; each cell
+  // takes between half and one and a half times this. null never regrows.
+  regrowMs: number | null;
+  // Coins the player can carry at once; the classic rules allow one
+  inventorySlots: number;
+}
+
+export const DEFAULT_WORLD_SETTINGS: WorldSettings = {
+  seed: "",
+  cellSize: 5.5,
+  projection: "mercator",
+  spawnProbability: 0.1,
+  valueDistribution: { kind: "uniform", min: 1, max: 10 },
+  reach: 60,
+  loadRadius: 25,
+  regrowMs: 30 * 60 * 1000,
+  inventorySlots: 1,
+};
+
+// Settings picked with a cell size on the ground, sized for where the world
+// starts. The grid is the same everywhere, so only cells near that latitude
+// come out at exactly that size: elsewhere it scales by cos(lat) /
+// cos(start), about 13% smaller 1000 km north of a world started at 37°N and
+// 25% larger at the equator. Resizing per latitude would move every cell.
+export function sizeCellsAt(
+  settings: WorldSettings,
+  lat: number,
+): WorldSettings {
+  return {
+    ...settings,
+    cellSize: planeCellSize(settings.cellSize, lat, settings.projection),
+  };
+}
+
+// Distributions offered when starting a new game
+export const VALUE_DISTRIBUTION_PRESETS: Record<
+  string,
+  { label: string; distribution: ValueDistribution }
+> = {
+  classic: {
+    label: "Classic (1–10)",
+    distribution: { kind: "uniform", min: 1, max: 10 },
+  },
+  powers: {
+    label: "Powers of two (1–32, small ones common)",
+    distribution: { kind: "powers-of-two", maxExponent: 5, ratio: 0.5 },
+  },
+};
+
+export function mixSeed(seed: string, situation: string): string {
+  return seed === "" ? situation : [seed, situation].toString();
+}
+
+export function worldLuck(seed: string, situation: string): number {
+  return luck(mixSeed(seed, situation));
+}
+
+// Turns a roll in [0, 1) into a coin value
+export function sampleValue(
+  distribution: ValueDistribution,
+  roll: number,
+): number {
+  switch (distribution.kind) {
+    case "uniform": {
+      const span = distribution.max - distribution.min + 1;
+      return distribution.min + Math.min(Math.floor(roll * span), span - 1);
+    }
+    case "powers-of-two": {
+      const weights = Array.from(
+        { length: distribution.maxExponent + 1 },
+        (_, exponent) => distribution.ratio ** exponent,
+      );
+      let remaining = roll * weights.reduce((sum, weight) => sum + weight, 0);
+      for (const [exponent, weight] of weights.entries()) {
+        remaining -= weight;
+        if (remaining < 0) return 2 ** exponent;
+      }
+      return 2 ** distribution.maxExponent;
+    }
+  }
+}
+
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}